@@ -0,0 +1,34 @@
+#!/usr/bin/env node
+/**
+ * aejo-client
+ *
+ * Write a typed client for a built application definition
+ *
+ * ```sh
+ * aejo-client dist/api.js src/client.ts
+ * ```
+ */
+import { writeFileSync } from 'fs'
+import { generateClient } from '../lib'
+import { loadDefinition } from './load'
+
+const [, , modulePath, out] = process.argv
+
+if (!modulePath) {
+  console.error('usage: aejo-client <module> [out]')
+  process.exit(1)
+}
+
+loadDefinition(modulePath)
+  .then((src) => {
+    const code = generateClient(src)
+    if (out) {
+      writeFileSync(out, code)
+    } else {
+      process.stdout.write(code)
+    }
+  })
+  .catch((err: Error) => {
+    console.error(err.message)
+    process.exit(1)
+  })
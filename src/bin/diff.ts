@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+/**
+ * aejo-diff
+ *
+ * Compare a previous document with the current application definition,
+ * exiting with 1 on breaking changes
+ *
+ * ```sh
+ * aejo-diff openapi.previous.json dist/api.js
+ * # machine-readable changes
+ * aejo-diff openapi.previous.json dist/api.js --json
+ * ```
+ */
+import * as OpenAPI3 from '../types/open-api-3'
+import { diffReport, diffSpecs } from '../lib'
+import { loadDefinition } from './load'
+
+const [, , previousPath, currentPath, ...flags] = process.argv
+
+if (!previousPath || !currentPath) {
+  console.error('usage: aejo-diff <previous> <current> [--json]')
+  process.exit(1)
+}
+
+Promise.all([loadDefinition(previousPath), loadDefinition(currentPath)])
+  .then(([previous, current]) => {
+    if (
+      typeof previous.openapi !== 'string' ||
+      typeof current.openapi !== 'string'
+    ) {
+      throw new Error('both definitions must be complete documents')
+    }
+    const changes = diffSpecs(
+      previous as OpenAPI3.AppObject,
+      current as OpenAPI3.AppObject
+    )
+    console.log(
+      flags.includes('--json')
+        ? JSON.stringify(changes, null, 2)
+        : diffReport(changes)
+    )
+    process.exit(changes.some((c) => c.type === 'breaking') ? 1 : 0)
+  })
+  .catch((err: Error) => {
+    console.error(err.message)
+    process.exit(1)
+  })
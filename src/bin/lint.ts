@@ -0,0 +1,37 @@
+#!/usr/bin/env node
+/**
+ * aejo-lint
+ *
+ * Lint a built application definition, exiting with 1 on errors
+ *
+ * ```sh
+ * aejo-lint dist/api.js
+ * # fail on warnings too
+ * aejo-lint dist/api.js --strict
+ * ```
+ */
+import { lint, lintReport } from '../lib'
+import { loadDefinition } from './load'
+
+const [, , modulePath, ...flags] = process.argv
+
+if (!modulePath) {
+  console.error('usage: aejo-lint <module> [--strict]')
+  process.exit(1)
+}
+
+loadDefinition(modulePath)
+  .then((src) => {
+    const findings = lint(src)
+    if (findings.length) {
+      console.log(lintReport(findings))
+    }
+    const failing = flags.includes('--strict')
+      ? findings
+      : findings.filter((f) => f.severity === 'error')
+    process.exit(failing.length ? 1 : 0)
+  })
+  .catch((err: Error) => {
+    console.error(err.message)
+    process.exit(1)
+  })
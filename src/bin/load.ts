@@ -0,0 +1,22 @@
+import { resolve } from 'path'
+import express from 'express'
+import * as OpenAPI3 from '../types/open-api-3'
+
+/**
+ * loadDefinition
+ *
+ * Load a built application definition: the module's default export
+ * is an `App` document, a `Paths` result or a function binding
+ * controllers to an express.js app and returning one
+ */
+export const loadDefinition = (
+  modulePath: string
+): Promise<OpenAPI3.AppObject | OpenAPI3.PathItem> =>
+  import(resolve(modulePath)).then((mod) => {
+    const def = mod.default ?? mod
+    const src = typeof def === 'function' ? def(express()) : def
+    if (!src || typeof src !== 'object') {
+      throw new Error(`'${modulePath}' exports no application definition`)
+    }
+    return src
+  })
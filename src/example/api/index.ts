@@ -1,24 +1,32 @@
 import { Express } from 'express'
 import swaggerUI from 'swagger-ui-express'
-import { Paths, Controller, ajv } from "../..";
+import { App, Controller, createAjv } from "../..";
 import logsController from './logs'
-import oas from './oas'
 
-// app-level ajv config options
+// app-level ajv instance and config options
+const ajv = createAjv({ coerceTypes: true })
 ajv.addKeyword('example')
-ajv.opts.coerceTypes = true
 
 export default (app: Express) => {
-    const oasPaths = Paths(
+    // build the OpenAPI document while binding controllers
+    const swaggerDoc = App(
         app,
+        {
+            ajv,
+            info: {
+                version: '0.0.1',
+                title: 'Example AEJO app',
+                description: 'An example AEJO app'
+            },
+            tags: [{ name: 'logs', description: 'Log records' }],
+        },
         Controller({
             prefix: '/api/logs',
             route: logsController,
         })
     )
-    // wrap swagger doc
-    const swaggerDoc = oas(oasPaths)
     // setup swagger doc endpoint
     app.use('/api-docs', swaggerUI.serve)
     app.use('/api-docs', swaggerUI.setup(swaggerDoc))
-}
\ No newline at end of file
+    return swaggerDoc
+}
@@ -2,7 +2,7 @@ import { Request, Response, NextFunction } from 'express'
 import { AODataType, AOParamDef, Get, QueryParam } from '../../../lib'
 import { buildParams } from '../common'
 // common model schema
-import { Schema } from './schema'
+import { Log } from './schema'
 
 // example data access method
 const getLogs = (limit: number, filter: string) => {
@@ -78,10 +78,7 @@ export default Get({
             properties: {
               logs: {
                 type: 'array',
-                items: {
-                  type: 'object',
-                  properties: Schema,
-                },
+                items: Log,
               },
             },
           },
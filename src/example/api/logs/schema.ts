@@ -1,4 +1,5 @@
 import { ParamSchema } from "../../../types/open-api-3";
+import { SchemaComponent } from "../../../lib";
 
 export const Schema: { [p in string]: ParamSchema } = {
     type: {
@@ -13,3 +14,8 @@ export const Schema: { [p in string]: ParamSchema } = {
     }
 }
 
+// shared model, documented once under `components.schemas`
+export const Log = SchemaComponent('Log', {
+    type: 'object',
+    properties: Schema,
+})
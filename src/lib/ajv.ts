@@ -0,0 +1,69 @@
+import Ajv, { Options } from 'ajv'
+import addFormats from 'ajv-formats'
+import * as OpenAPI3 from '../types/open-api-3'
+
+export type AjvOption = Ajv | Options
+
+// per-operation AJV instances derived from a base instance
+const derived = new WeakMap<Ajv, Map<string, Ajv>>()
+
+/**
+ * createAjv
+ *
+ * Create an AJV instance with `ajv-formats` installed
+ */
+export const createAjv = (opts?: Options): Ajv => {
+  const v = new Ajv(opts)
+  addFormats(v)
+  return v
+}
+
+/**
+ * ajvInstance
+ *
+ * Resolve an injected AJV instance or options object
+ */
+export const ajvInstance = (opt: AjvOption): Ajv =>
+  opt instanceof Ajv ? opt : createAjv(opt)
+
+/**
+ * operationAjv
+ *
+ * Resolve the AJV instance for a single operation, applying
+ * its validation overrides on top of the base instance.
+ *
+ * Derived instances copy the base instance's custom keywords and
+ * formats and are cached per base instance and override set
+ */
+export const operationAjv = (
+  base: Ajv,
+  validation?: OpenAPI3.ValidationOptions
+): Ajv => {
+  const keys = Object.keys(validation || {})
+  if (keys.length === 0 || keys.every((k) => base.opts[k] === validation[k])) {
+    return base
+  }
+  const key = JSON.stringify(keys.sort().map((k) => [k, validation[k]]))
+  let cache = derived.get(base)
+  if (!cache) {
+    cache = new Map<string, Ajv>()
+    derived.set(base, cache)
+  }
+  let v = cache.get(key)
+  if (!v) {
+    v = new Ajv({ ...base.opts, ...validation })
+    for (const k of Object.keys(base.RULES.keywords)) {
+      if (!v.RULES.keywords[k]) {
+        const def = base.getKeyword(k)
+        v.addKeyword(typeof def === 'object' ? def : k)
+      }
+    }
+    for (const f of Object.keys(base.formats)) {
+      if (!v.formats[f]) {
+        v.addFormat(f, base.formats[f])
+      }
+    }
+    cache.set(key, v)
+  }
+  return v
+}
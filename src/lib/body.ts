@@ -0,0 +1,339 @@
+import express, {
+  Request,
+  Response,
+  NextFunction,
+  RequestHandler,
+} from 'express'
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv'
+import * as OpenAPI3 from '../types/open-api-3'
+import { HttpError, ValidationError } from './errors'
+import { findContent } from './response'
+import { parseMultipart, readBody } from './multipart'
+
+// limits used when a file schema has no `maxLength`/`maxItems`
+const defaultFileLimit = 10 * 1024 * 1024
+const fieldsLimit = 1024 * 1024
+
+type MediaKind = 'json' | 'urlencoded' | 'multipart' | 'text' | 'raw'
+
+interface FileField {
+  name: string
+  multiple: boolean
+  required: boolean
+  schema: OpenAPI3.ParamSchema
+  contentType?: string
+}
+
+interface MediaValidator {
+  kind: MediaKind
+  validate?: ValidateFunction
+  files: FileField[]
+  limit: number
+}
+
+const mediaKind = (mediaType: string): MediaKind => {
+  if (mediaType === 'multipart/form-data') {
+    return 'multipart'
+  }
+  if (mediaType === 'application/x-www-form-urlencoded') {
+    return 'urlencoded'
+  }
+  if (/[/+]json$/.test(mediaType)) {
+    return 'json'
+  }
+  return mediaType.startsWith('text/') ? 'text' : 'raw'
+}
+
+const isBinary = (schema?: OpenAPI3.ParamSchema) =>
+  schema?.type === 'string' && schema.format === 'binary'
+
+/**
+ * fileFields
+ *
+ * File parts of a form schema, described as `format: binary`
+ * strings or arrays of them
+ */
+export const fileFields = (
+  media: OpenAPI3.ContentItem[string]
+): FileField[] => {
+  const { properties = {}, required = [] } = media.schema
+  return Object.keys(properties)
+    .filter(
+      (name) =>
+        isBinary(properties[name]) ||
+        (properties[name].type === 'array' && isBinary(properties[name].items))
+    )
+    .map((name) => ({
+      name,
+      multiple: properties[name].type === 'array',
+      required: required.includes(name),
+      schema: properties[name],
+      contentType: media.encoding?.[name]?.contentType,
+    }))
+}
+
+// schema of the non-file form fields
+const fieldSchema = (
+  schema: OpenAPI3.ParamSchema,
+  files: FileField[]
+): OpenAPI3.ParamSchema => {
+  const names = files.map((f) => f.name)
+  const properties = { ...schema.properties }
+  names.forEach((n) => delete properties[n])
+  return {
+    ...schema,
+    properties,
+    ...(schema.required
+      ? { required: schema.required.filter((r) => !names.includes(r)) }
+      : {}),
+  }
+}
+
+const fileLimit = (f: FileField) => {
+  const item = f.multiple ? f.schema.items : f.schema
+  return (
+    (item?.maxLength ?? defaultFileLimit) *
+    (f.multiple ? f.schema.maxItems ?? 1 : 1)
+  )
+}
+
+const compileMedia = (
+  v: Ajv,
+  mediaType: string,
+  media: OpenAPI3.ContentItem[string]
+): MediaValidator => {
+  const kind = mediaKind(mediaType)
+  if (kind === 'raw') {
+    return { kind, files: [], limit: 0 }
+  }
+  const files = kind === 'multipart' ? fileFields(media) : []
+  return {
+    kind,
+    validate: v.compile(
+      files.length ? fieldSchema(media.schema, files) : media.schema
+    ),
+    files,
+    limit: files.reduce((acc, f) => acc + fileLimit(f), fieldsLimit),
+  }
+}
+
+const matchesType = (accept: string, mimetype: string) =>
+  accept
+    .split(',')
+    .map((t) => t.trim().toLowerCase())
+    .some(
+      (t) =>
+        t === '*/*' ||
+        t === mimetype.toLowerCase() ||
+        (t.endsWith('/*') && mimetype.toLowerCase().startsWith(t.slice(0, -1)))
+    )
+
+const fileError = (
+  instancePath: string,
+  keyword: string,
+  message: string,
+  params: Record<string, unknown> = {}
+): Partial<ErrorObject> => ({
+  instancePath,
+  schemaPath: '',
+  keyword,
+  params,
+  message,
+})
+
+/**
+ * validateFiles
+ *
+ * Check uploaded files against the count, size and
+ * content type limits of their schema
+ */
+export const validateFiles = (
+  fields: FileField[],
+  files: OpenAPI3.UploadedFiles
+): Partial<ErrorObject>[] =>
+  fields.reduce((errors, f) => {
+    const uploaded = files[f.name] || []
+    const item = (f.multiple ? f.schema.items : f.schema) || {}
+    const max = f.multiple ? f.schema.maxItems : 1
+    const min = f.multiple ? f.schema.minItems ?? 0 : 0
+    if (f.required && uploaded.length === 0) {
+      errors.push(
+        fileError('', 'required', `must have required property '${f.name}'`, {
+          missingProperty: f.name,
+        })
+      )
+      return errors
+    }
+    if (max !== undefined && uploaded.length > max) {
+      errors.push(
+        fileError(
+          `/${f.name}`,
+          'maxItems',
+          `must NOT have more than ${max} files`,
+          {
+            limit: max,
+          }
+        )
+      )
+    }
+    if (uploaded.length && uploaded.length < min) {
+      errors.push(
+        fileError(
+          `/${f.name}`,
+          'minItems',
+          `must NOT have fewer than ${min} files`,
+          {
+            limit: min,
+          }
+        )
+      )
+    }
+    uploaded.forEach((file, i) => {
+      const path = f.multiple ? `/${f.name}/${i}` : `/${f.name}`
+      if (item.maxLength !== undefined && file.size > item.maxLength) {
+        errors.push(
+          fileError(
+            path,
+            'maxLength',
+            `must NOT be larger than ${item.maxLength} bytes`,
+            {
+              limit: item.maxLength,
+            }
+          )
+        )
+      }
+      if (item.minLength !== undefined && file.size < item.minLength) {
+        errors.push(
+          fileError(
+            path,
+            'minLength',
+            `must NOT be smaller than ${item.minLength} bytes`,
+            {
+              limit: item.minLength,
+            }
+          )
+        )
+      }
+      if (f.contentType && !matchesType(f.contentType, file.mimetype)) {
+        errors.push(
+          fileError(path, 'contentType', `must be ${f.contentType}`, {
+            contentType: f.contentType,
+          })
+        )
+      }
+    })
+    return errors
+  }, [] as Partial<ErrorObject>[])
+
+const parsers: { [kind in MediaKind]?: RequestHandler } = {
+  // any JSON value, e.g. a bare string, is left to the schema to reject
+  json: express.json({ type: () => true, strict: false }),
+  urlencoded: express.urlencoded({ extended: true, type: () => true }),
+  text: express.text({ type: () => true }),
+}
+
+// body-parser marks parsed requests with `_body`
+const isParsed = (
+  req: Request & { _body?: boolean; files?: OpenAPI3.UploadedFiles }
+) => req._body === true || req.files !== undefined
+
+const parseBody = (
+  req: Request & { _body?: boolean; files?: OpenAPI3.UploadedFiles },
+  res: Response,
+  media: MediaValidator,
+  contentType: string,
+  done: (err?: unknown) => void
+) => {
+  if (isParsed(req)) {
+    done()
+    return
+  }
+  if (media.kind === 'multipart') {
+    readBody(req, media.limit)
+      .then((body) => {
+        const { fields, files } = parseMultipart(body, contentType)
+        req.body = fields
+        req.files = files
+        req._body = true
+        done()
+      })
+      .catch(done)
+    return
+  }
+  const parser = parsers[media.kind]
+  if (parser) {
+    parser(req, res, done)
+  } else {
+    done()
+  }
+}
+
+const mediaTypeOf = (req: Request): string | undefined =>
+  req.headers['content-type']?.split(';')[0].trim().toLowerCase()
+
+/**
+ * bodyHandler
+ *
+ * Select the declared `requestBody` media type from the request
+ * `Content-Type`, parse the body when no parser ran before and validate it.
+ *
+ * Undeclared media types are answered with a 415 `HttpError`
+ */
+export const bodyHandler = (
+  v: Ajv,
+  requestBody: OpenAPI3.MediaSchema
+): RequestHandler | undefined => {
+  const content = requestBody.content || {}
+  const media = Object.keys(content).reduce((acc, type) => {
+    acc[type.toLowerCase()] = compileMedia(v, type.toLowerCase(), content[type])
+    return acc
+  }, {} as { [content: string]: MediaValidator })
+  if (Object.keys(media).length === 0) {
+    return undefined
+  }
+
+  return (
+    req: Request & { files?: OpenAPI3.UploadedFiles },
+    res: Response,
+    next: NextFunction
+  ) => {
+    const mediaType = mediaTypeOf(req)
+    // requests without a content type fall back to the JSON schema
+    const selected = mediaType
+      ? findContent(media, mediaType)
+      : media['application/json']
+    if (!selected) {
+      if (mediaType) {
+        next(new HttpError(415, `unsupported media type '${mediaType}'`))
+      } else if (requestBody.required) {
+        next(
+          new ValidationError(
+            'AejoValidationError',
+            [fileError('', 'required', 'request body is required')],
+            'body'
+          )
+        )
+      } else {
+        next()
+      }
+      return
+    }
+    parseBody(req, res, selected, req.headers['content-type'] || '', (err) => {
+      if (err) {
+        next(err)
+        return
+      }
+      const errors = [
+        ...(selected.validate && !selected.validate(req.body)
+          ? selected.validate.errors || []
+          : []),
+        ...validateFiles(selected.files, req.files || {}),
+      ]
+      if (errors.length) {
+        next(new ValidationError('AejoValidationError', errors, 'body'))
+        return
+      }
+      next()
+    })
+  }
+}
@@ -0,0 +1,531 @@
+import * as OpenAPI3 from '../types/open-api-3'
+import { componentSchemas, schemaPrefix } from './components'
+import { resolveRef, specOperations } from './document'
+
+export interface ClientGeneratorOptions {
+  /** default base URL, the first document server otherwise */
+  baseUrl?: string
+}
+
+type ClientSource =
+  | OpenAPI3.AppObject
+  | OpenAPI3.SpecDocument
+  | OpenAPI3.PathItem
+
+interface ClientOperation {
+  name: string
+  operationId: string
+  method: string
+  path: string
+  summary?: string
+  deprecated?: boolean
+  parameters: OpenAPI3.Parameter[]
+  body?: { mediaType: string; schema?: OpenAPI3.ParamSchema; required: boolean }
+  responses: { status: string; schema?: OpenAPI3.ParamSchema; empty: boolean }[]
+  security?: unknown
+}
+
+const isDocument = (
+  src: ClientSource
+): src is OpenAPI3.AppObject | OpenAPI3.SpecDocument =>
+  typeof src.openapi === 'string' &&
+  typeof src.paths === 'object' &&
+  src.paths !== null
+
+const identifier = /^[A-Za-z_$][\w$]*$/
+
+const words = (s: string) => s.split(/[^A-Za-z0-9]+/).filter(Boolean)
+
+const pascal = (s: string) =>
+  words(s)
+    .map((w) => w[0].toUpperCase() + w.slice(1))
+    .join('')
+
+const camel = (s: string) => {
+  const p = pascal(s)
+  const name = p && p[0].toLowerCase() + p.slice(1)
+  return /^\d/.test(name) ? `_${name}` : name
+}
+
+/**
+ * typeName
+ *
+ * TypeScript type name of a component schema
+ */
+export const typeName = (component: string): string => {
+  const name = pascal(component) || 'Schema'
+  return /^\d/.test(name) ? `_${name}` : name
+}
+
+const propertyKey = (key: string) =>
+  identifier.test(key) ? key : JSON.stringify(key)
+
+const quote = (s: string) =>
+  `'${s.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+
+const comment = (lines: (string | undefined)[], indent: string) => {
+  const text = lines
+    .filter(Boolean)
+    .join('\n')
+    .replace(/\*\//g, '*\\/')
+    .split('\n')
+  if (!text.length || (text.length === 1 && !text[0])) {
+    return ''
+  }
+  if (text.length === 1) {
+    return `${indent}/** ${text[0]} */\n`
+  }
+  return `${indent}/**\n${text
+    .map((l) => `${indent} * ${l}`)
+    .join('\n')}\n${indent} */\n`
+}
+
+const objectType = (
+  members: { key: string; type: string; optional: boolean; doc?: string }[],
+  index: string | undefined,
+  indent: string
+) => {
+  if (!members.length && !index) {
+    return '{}'
+  }
+  const inner = `${indent}  `
+  const lines = members.map(
+    (m) =>
+      `${comment([m.doc], inner)}${inner}${propertyKey(m.key)}${
+        m.optional ? '?' : ''
+      }: ${m.type}`
+  )
+  if (index) {
+    lines.push(`${inner}[key: string]: ${index}`)
+  }
+  return `{\n${lines.join('\n')}\n${indent}}`
+}
+
+/**
+ * schemaType
+ *
+ * TypeScript type of a JSON schema, component references
+ * are named after {@link typeName}
+ */
+export const schemaType = (
+  schema: OpenAPI3.ParamSchema | undefined,
+  indent = ''
+): string => {
+  if (!schema || typeof schema !== 'object') {
+    return 'unknown'
+  }
+  const nullable = (t: string) => (schema.nullable ? `${t} | null` : t)
+  if (schema.$ref) {
+    return nullable(
+      schema.$ref.startsWith(schemaPrefix)
+        ? typeName(schema.$ref.slice(schemaPrefix.length))
+        : 'unknown'
+    )
+  }
+  if (schema.enum) {
+    return nullable(
+      (schema.enum as unknown[]).map((e) => JSON.stringify(e)).join(' | ')
+    )
+  }
+  const union = schema.oneOf || schema.anyOf
+  if (union) {
+    return nullable(
+      union.map((s) => `(${schemaType(s, indent)})`).join(' | ') || 'unknown'
+    )
+  }
+  if (schema.allOf) {
+    return nullable(
+      schema.allOf.map((s) => `(${schemaType(s, indent)})`).join(' & ') ||
+        'unknown'
+    )
+  }
+  switch (schema.type) {
+    case 'string':
+      return nullable(schema.format === 'binary' ? 'Blob' : 'string')
+    case 'integer':
+    case 'number':
+      return nullable('number')
+    case 'boolean':
+      return nullable('boolean')
+    case 'array':
+      return nullable(`Array<${schemaType(schema.items, indent)}>`)
+  }
+  if (schema.type === 'object' || schema.properties) {
+    const properties = schema.properties || {}
+    const required = schema.required || []
+    const extra = schema.additionalProperties
+    const index =
+      typeof extra === 'object'
+        ? schemaType(extra, `${indent}  `)
+        : extra === true || (extra === undefined && !schema.properties)
+        ? 'unknown'
+        : undefined
+    return nullable(
+      objectType(
+        Object.keys(properties).map((key) => ({
+          key,
+          type: schemaType(properties[key], `${indent}  `),
+          optional: !required.includes(key),
+          doc: properties[key].description,
+        })),
+        index,
+        indent
+      )
+    )
+  }
+  return 'unknown'
+}
+
+const operationName = (method: string, path: string) =>
+  camel(
+    [
+      method,
+      ...path
+        .split('/')
+        .filter(Boolean)
+        .map((seg) => {
+          const param = seg.match(/^\{(.+)\}$|^:(\w+)/)
+          return param ? `by ${param[1] || param[2]}` : seg
+        }),
+    ].join(' ')
+  )
+
+// JSON media types are preferred for bodies and responses
+const pickMedia = (content: OpenAPI3.ContentItem = {}) => {
+  const types = Object.keys(content)
+  const mediaType =
+    types.find((t) => /[/+]json$/i.test(t.split(';')[0])) || types[0]
+  return mediaType ? { mediaType, media: content[mediaType] } : undefined
+}
+
+const clientOperations = (src: ClientSource): ClientOperation[] => {
+  const doc = (
+    isDocument(src) ? src : { openapi: '3.0.3', paths: src }
+  ) as OpenAPI3.SpecDocument
+  const names = new Set<string>()
+  return specOperations(doc).map(({ path, method, operation }) => {
+    let name = camel(operation.operationId || '') || operationName(method, path)
+    for (let i = 2; names.has(name); i++) {
+      name = `${name.replace(/\d+$/, '')}${i}`
+    }
+    names.add(name)
+    const body =
+      operation.requestBody && pickMedia(operation.requestBody.content)
+    const responses = operation.responses || {}
+    return {
+      name,
+      operationId: operation.operationId || name,
+      method: method.toUpperCase(),
+      path,
+      summary: operation.summary,
+      deprecated: operation.deprecated,
+      parameters: (operation.parameters || []) as OpenAPI3.Parameter[],
+      body: body && {
+        mediaType: body.mediaType,
+        schema: body.media.schema,
+        required: !!operation.requestBody.required,
+      },
+      responses: Object.keys(responses).map((status) => {
+        const res = resolveRef<OpenAPI3.MediaSchema>(doc, responses[status])
+        const media = pickMedia(res.content)
+        return { status, schema: media?.media.schema, empty: !media }
+      }),
+      security: operation.security,
+    }
+  })
+}
+
+const paramsType = (params: OpenAPI3.Parameter[], indent: string) =>
+  objectType(
+    params.map((p) => ({
+      key: p.name,
+      type: schemaType(p.schema, `${indent}  `),
+      optional: !(p.required || p.in === 'path'),
+      doc: p.description,
+    })),
+    undefined,
+    indent
+  )
+
+const argsType = (op: ClientOperation) => {
+  const members: { key: string; type: string; optional: boolean }[] = []
+  const locations: [OpenAPI3.ParamIn, string][] = [
+    ['path', 'path'],
+    ['query', 'query'],
+    ['header', 'headers'],
+    ['cookie', 'cookies'],
+  ]
+  for (const [location, key] of locations) {
+    const params = op.parameters.filter((p) => p.in === location)
+    if (params.length) {
+      members.push({
+        key,
+        type: paramsType(params, '  '),
+        optional: !params.some((p) => p.required || p.in === 'path'),
+      })
+    }
+  }
+  if (op.body) {
+    members.push({
+      key: 'body',
+      type: schemaType(op.body.schema, '  '),
+      optional: !op.body.required,
+    })
+  }
+  return members
+}
+
+const statusType = (status: string) =>
+  /^\d{3}$/.test(status) ? status : 'number'
+
+const responseType = (op: ClientOperation) => {
+  const results = op.responses.map(
+    (r) =>
+      `ApiResponse<${statusType(r.status)}, ${
+        r.empty ? 'undefined' : schemaType(r.schema)
+      }>`
+  )
+  return results.length
+    ? results.join('\n  | ')
+    : 'ApiResponse<number, unknown>'
+}
+
+const runtime = `export interface ClientRequest {
+  operationId: string
+  method: string
+  url: string
+  headers: Record<string, string>
+  body?: unknown
+  /** security requirements of the operation */
+  security?: Record<string, string[]>[]
+}
+
+export interface FetchResponse {
+  status: number
+  headers: { get(name: string): string | null }
+  json(): Promise<unknown>
+  text(): Promise<string>
+}
+
+export type ClientFetch = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body?: unknown }
+) => Promise<FetchResponse>
+
+export interface ClientOptions {
+  /** base URL prepended to operation paths */
+  baseUrl?: string
+  /** fetch implementation, the global \`fetch\` by default */
+  fetch?: ClientFetch
+  /** add credentials or change a request before it is sent */
+  auth?: (
+    req: ClientRequest
+  ) => ClientRequest | void | Promise<ClientRequest | void>
+}
+
+export interface ApiResponse<S extends number, B> {
+  status: S
+  body: B
+  headers: { get(name: string): string | null }
+}
+
+type Values = Record<string, unknown>
+
+interface OperationInfo {
+  operationId: string
+  method: string
+  path: string
+  mediaType?: string
+  security?: Record<string, string[]>[]
+}
+
+interface OperationArgs {
+  path?: Values
+  query?: Values
+  headers?: Values
+  cookies?: Values
+  body?: unknown
+}
+
+const text = (v: unknown) =>
+  typeof v === 'object' && v !== null ? JSON.stringify(v) : String(v)
+
+const queryString = (query: Values = {}) => {
+  const parts: string[] = []
+  for (const key of Object.keys(query)) {
+    const value = query[key]
+    if (value === undefined) {
+      continue
+    }
+    for (const v of Array.isArray(value) ? value : [value]) {
+      parts.push(encodeURIComponent(key) + '=' + encodeURIComponent(text(v)))
+    }
+  }
+  return parts.length ? '?' + parts.join('&') : ''
+}
+
+const encodeBody = (mediaType: string, body: unknown) => {
+  if (/[/+]json$/i.test(mediaType)) {
+    return JSON.stringify(body)
+  }
+  if (mediaType === 'application/x-www-form-urlencoded') {
+    return queryString(body as Values).slice(1)
+  }
+  if (mediaType === 'multipart/form-data') {
+    const { FormData } = globalThis as unknown as {
+      FormData: new () => { append(key: string, value: unknown): void }
+    }
+    const form = new FormData()
+    const values = body as Values
+    for (const key of Object.keys(values)) {
+      const value = values[key]
+      for (const v of Array.isArray(value) ? value : [value]) {
+        if (v !== undefined) {
+          form.append(key, typeof v === 'object' && v !== null && 'size' in v ? v : text(v))
+        }
+      }
+    }
+    return form
+  }
+  return body
+}
+
+const request =
+  (opts: ClientOptions) =>
+  async (op: OperationInfo, args: OperationArgs = {}): Promise<unknown> => {
+    const send =
+      opts.fetch ?? (globalThis as unknown as { fetch: ClientFetch }).fetch
+    const path = op.path.replace(/\\{([^}]+)\\}/g, (_m, name: string) =>
+      encodeURIComponent(text(args.path?.[name]))
+    )
+    const headers: Record<string, string> = {}
+    const given = args.headers || {}
+    for (const key of Object.keys(given)) {
+      if (given[key] !== undefined) {
+        headers[key] = text(given[key])
+      }
+    }
+    const jar = args.cookies || {}
+    const cookies = Object.keys(jar)
+      .filter((key) => jar[key] !== undefined)
+      .map((key) => key + '=' + encodeURIComponent(text(jar[key])))
+    if (cookies.length) {
+      headers.cookie = cookies.join('; ')
+    }
+    let req: ClientRequest = {
+      operationId: op.operationId,
+      method: op.method,
+      url: (opts.baseUrl ?? defaultBaseUrl) + path + queryString(args.query),
+      headers,
+      security: op.security,
+    }
+    if (op.mediaType && args.body !== undefined) {
+      if (op.mediaType !== 'multipart/form-data') {
+        headers['content-type'] = op.mediaType
+      }
+      req.body = encodeBody(op.mediaType, args.body)
+    }
+    req = (opts.auth && (await opts.auth(req))) || req
+    const res = await send(req.url, {
+      method: req.method,
+      headers: req.headers,
+      body: req.body,
+    })
+    const type = res.headers.get('content-type') || ''
+    const raw = await res.text()
+    return {
+      status: res.status,
+      headers: res.headers,
+      body: raw && /[/+]json/i.test(type) ? JSON.parse(raw) : raw || undefined,
+    }
+  }
+`
+
+/**
+ * generateClient
+ *
+ * Generate the TypeScript source of a typed client, with one function
+ * per operation, from the `PathItem` returned by {@link Paths} or a
+ * complete OpenAPI 3 document
+ *
+ * ```typescript
+ * const doc = App(app, { info }, logs)
+ * writeFileSync('client.ts', generateClient(doc))
+ *
+ * // in the generated client
+ * const api = createClient({ baseUrl: 'https://api.example.com' })
+ * const res = await api.listLogs({ query: { limit: 10 } })
+ * if (res.status === 200) {
+ *   res.body // typed from the 200 response schema
+ * }
+ * ```
+ */
+export const generateClient = (
+  src: ClientSource,
+  opts: ClientGeneratorOptions = {}
+): string => {
+  const ops = clientOperations(src)
+  const schemas = isDocument(src)
+    ? ((src.components?.schemas || {}) as {
+        [name: string]: OpenAPI3.ParamSchema
+      })
+    : componentSchemas(src)
+  const servers = isDocument(src)
+    ? (src.servers as OpenAPI3.ServerObject[] | undefined)
+    : undefined
+  const baseUrl = opts.baseUrl ?? servers?.[0]?.url ?? ''
+
+  const out: string[] = [
+    '/* eslint-disable */',
+    '// Generated by aejo, do not edit',
+    '',
+    `const defaultBaseUrl = ${quote(baseUrl)}`,
+    '',
+    runtime,
+  ]
+  for (const name of Object.keys(schemas)) {
+    out.push(
+      `${comment([schemas[name].description], '')}export type ${typeName(
+        name
+      )} = ${schemaType(schemas[name])}\n`
+    )
+  }
+  for (const op of ops) {
+    const type = pascal(op.name)
+    out.push(
+      `export type ${type}Args = ${objectType(argsType(op), undefined, '')}\n`,
+      `export type ${type}Response =\n  | ${responseType(op)}\n`
+    )
+  }
+
+  const fns = ops.map((op) => {
+    const type = pascal(op.name)
+    const optional = argsType(op).every((m) => m.optional)
+    const info = [
+      `operationId: ${quote(op.operationId)}`,
+      `method: ${quote(op.method)}`,
+      `path: ${quote(op.path)}`,
+      ...(op.body ? [`mediaType: ${quote(op.body.mediaType)}`] : []),
+      ...(op.security ? [`security: ${JSON.stringify(op.security)}`] : []),
+    ]
+    return `${comment(
+      [op.summary, op.deprecated ? '@deprecated' : undefined],
+      '    '
+    )}    ${op.name}: (args: ${type}Args${
+      optional ? ' = {}' : ''
+    }): Promise<${type}Response> =>
+      call({ ${info.join(', ')} }, args) as Promise<${type}Response>,`
+  })
+  out.push(
+    `export const createClient = (opts: ClientOptions = {}) => {
+  const call = request(opts)
+  return {
+${fns.join('\n')}
+  }
+}
+
+export type Client = ReturnType<typeof createClient>
+`
+  )
+  return out.join('\n')
+}
@@ -0,0 +1,164 @@
+import Ajv from 'ajv'
+import * as OpenAPI3 from '../types/open-api-3'
+
+// `$ref` prefix of component schemas
+export const schemaPrefix = '#/components/schemas/'
+
+// type-only key carrying the referenced schema for `AODataType`
+export declare const aoComponent: unique symbol
+
+export type ComponentRef<S> = {
+  $ref: string
+  readonly [aoComponent]?: S
+}
+
+interface Component {
+  name: string
+  schema: OpenAPI3.ParamSchema
+}
+
+// the component behind each `$ref` SchemaComponent returned, names are
+// only resolved within the operations or document that reference them
+const components = new WeakMap<object, Component>()
+
+// component schemas added to each AJV instance, by name
+const added = new WeakMap<Ajv, Map<string, OpenAPI3.ParamSchema>>()
+
+/**
+ * SchemaComponent
+ *
+ * Name a schema and reference it from operations
+ *
+ * The returned `$ref` is resolved by AJV at validation time and the
+ * schema is emitted under `components.schemas` by {@link App}.
+ * Names are not global, two components may share a name as long as
+ * no AJV instance or document references both
+ *
+ * ```typescript
+ * const Log = SchemaComponent('Log', {
+ *   type: 'object',
+ *   properties: {
+ *     message: { type: 'string' },
+ *   },
+ * })
+ *
+ * Get({
+ *   responses: {
+ *     '200': {
+ *       description: 'log records',
+ *       content: {
+ *         'application/json': {
+ *           schema: { type: 'array', items: Log },
+ *         },
+ *       },
+ *     },
+ *   },
+ *   middleware: [
+ *     // express HTTP handler
+ *   ]
+ * })
+ * ```
+ */
+export const SchemaComponent = <S extends OpenAPI3.ParamSchema>(
+  name: string,
+  schema: S
+): ComponentRef<S> => {
+  if (!/^[a-zA-Z0-9.\-_]+$/.test(name)) {
+    throw new Error(`invalid component schema name '${name}'`)
+  }
+  const ref = { $ref: `${schemaPrefix}${name}` }
+  components.set(ref, { name, schema })
+  return ref
+}
+
+const conflict = (name: string) =>
+  new Error(`component schema '${name}' is defined more than once`)
+
+// components reachable from a node, including those of other components
+const collect = (
+  node: unknown,
+  found: Map<string, OpenAPI3.ParamSchema>,
+  refs: Set<string>,
+  seen = new WeakSet<object>()
+) => {
+  if (!node || typeof node !== 'object' || seen.has(node)) {
+    return
+  }
+  seen.add(node)
+  const c = components.get(node)
+  if (c) {
+    const current = found.get(c.name)
+    if (current && current !== c.schema) {
+      throw conflict(c.name)
+    }
+    found.set(c.name, c.schema)
+    collect(c.schema, found, refs, seen)
+  }
+  for (const [k, v] of Object.entries(node)) {
+    if (k === '$ref' && typeof v === 'string' && v.startsWith(schemaPrefix)) {
+      refs.add(v.slice(schemaPrefix.length))
+    } else {
+      collect(v, found, refs, seen)
+    }
+  }
+}
+
+/**
+ * addComponents
+ *
+ * Add the component schemas referenced from a node, such as an
+ * operation, to an AJV instance so `$ref`s resolve when its schemas
+ * are compiled
+ */
+export const addComponents = (v: Ajv, node: unknown): Ajv => {
+  let names = added.get(v)
+  if (!names) {
+    names = new Map<string, OpenAPI3.ParamSchema>()
+    added.set(v, names)
+  }
+  const found = new Map<string, OpenAPI3.ParamSchema>()
+  collect(node, found, new Set<string>())
+  for (const [name, schema] of found) {
+    const current = names.get(name)
+    if (current && current !== schema) {
+      throw conflict(name)
+    }
+    // keys already taken, e.g. by a loaded document, are left as they are
+    if (!current && !v.schemas[`${schemaPrefix}${name}`]) {
+      v.addSchema(schema, `${schemaPrefix}${name}`)
+      names.set(name, schema)
+    }
+  }
+  return v
+}
+
+/**
+ * componentSchemas
+ *
+ * Collect the component schemas referenced from a document node,
+ * including schemas referenced by other components.
+ *
+ * Names not given by a {@link SchemaComponent} are looked up in
+ * `known`, e.g. the `components.schemas` of a bound spec document
+ */
+export const componentSchemas = (
+  node: unknown,
+  known: { [name: string]: OpenAPI3.ParamSchema } = {}
+): { [name: string]: OpenAPI3.ParamSchema } => {
+  const found = new Map<string, OpenAPI3.ParamSchema>()
+  const refs = new Set<string>()
+  collect(node, found, refs)
+  const out: { [name: string]: OpenAPI3.ParamSchema } = {}
+  // `refs` grows while iterating with references inside `known` schemas
+  for (const name of refs) {
+    const schema = found.get(name) ?? known[name]
+    if (!schema) {
+      throw new Error(`unknown component schema '${name}'`)
+    }
+    out[name] = schema
+    if (!found.has(name)) {
+      collect(schema, found, refs)
+    }
+  }
+  return out
+}
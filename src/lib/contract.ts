@@ -0,0 +1,273 @@
+import { Express } from 'express'
+import Ajv from 'ajv'
+import * as OpenAPI3 from '../types/open-api-3'
+import { AjvOption } from './ajv'
+import { addComponents } from './components'
+import { specAjv } from './document'
+import { findContent } from './response'
+import { HttpMethods } from './methods'
+
+/**
+ * Response received from a scenario, as returned by supertest
+ */
+export interface ContractResponse {
+  status: number
+  headers: { [header: string]: string | string[] | undefined }
+  text?: string
+  body?: unknown
+}
+
+export interface ContractCase {
+  /** `METHOD /path` as documented */
+  operation: string
+  status: string
+}
+
+export interface ContractResult extends ContractCase {
+  name: string
+  passed: boolean
+  errors: string[]
+}
+
+export interface ContractOptions {
+  ajv?: AjvOption
+}
+
+type ContractSend = (app: Express) => PromiseLike<ContractResponse>
+
+interface Scenario extends ContractCase {
+  name: string
+  send: ContractSend
+}
+
+const isDocument = (
+  src: OpenAPI3.AppObject | OpenAPI3.PathItem
+): src is OpenAPI3.AppObject =>
+  typeof src.openapi === 'string' && typeof src.paths === 'object'
+
+const header = (res: ContractResponse, name: string) => {
+  const value = res.headers[name] ?? res.headers[name.toLowerCase()]
+  return Array.isArray(value) ? value[0] : value
+}
+
+// the declared status a received status code is checked against
+const statusMatches = (
+  declared: string,
+  status: number,
+  codes: string[]
+): boolean => {
+  if (declared === 'default') {
+    return !codes.some(
+      (c) => c !== 'default' && statusMatches(c, status, codes)
+    )
+  }
+  if (/^\dXX$/i.test(declared)) {
+    return String(status)[0] === declared[0]
+  }
+  return String(status) === declared
+}
+
+const responseBody = (res: ContractResponse, mediaType: string): unknown => {
+  if (/[/+]json$/.test(mediaType)) {
+    if (res.text !== undefined && res.text !== '') {
+      try {
+        return JSON.parse(res.text)
+      } catch (e) {
+        return res.text
+      }
+    }
+    return res.body
+  }
+  return res.text ?? res.body
+}
+
+/**
+ * Contract
+ *
+ * Exercise the documented responses of an application with one or more
+ * scenarios per operation and status code, checking the received status,
+ * content type and body against the declared `responses`
+ *
+ * ```typescript
+ * const paths = Paths(app, usersController)
+ * const contract = Contract(app, paths)
+ *   .scenario('GET /api/users/{id}', 200, (app) =>
+ *     request(app).get('/api/users/1')
+ *   )
+ *   .scenario('GET /api/users/{id}', 404, (app) =>
+ *     request(app).get('/api/users/0')
+ *   )
+ *
+ * test('contract', async () => {
+ *   const results = await contract.run()
+ *   expect(results.filter((r) => !r.passed)).toEqual([])
+ * })
+ * afterAll(() => contract.report())
+ * ```
+ */
+export const Contract = (
+  app: Express,
+  src: OpenAPI3.AppObject | OpenAPI3.PathItem,
+  opts: ContractOptions = {}
+) => {
+  const paths: OpenAPI3.PathItem = isDocument(src) ? src.paths : src
+  const doc = (isDocument(src)
+    ? src
+    : { openapi: '3.0.3', paths }) as unknown as OpenAPI3.SpecDocument
+  let v: Ajv | undefined
+  const validator = () => {
+    v = v ?? addComponents(specAjv(doc, opts.ajv ?? { strict: false }), paths)
+    return v
+  }
+
+  const operations = new Map<string, OpenAPI3.PathOperation>()
+  for (const path of Object.keys(paths)) {
+    for (const method of HttpMethods.filter((m) => paths[path][m])) {
+      operations.set(`${method.toUpperCase()} ${path}`, paths[path][method])
+    }
+  }
+  const scenarios: Scenario[] = []
+  const exercised = new Set<string>()
+  const results: ContractResult[] = []
+
+  const responsesOf = (operation: string) => {
+    const op = operations.get(operation)
+    if (!op) {
+      throw new Error(`unknown operation '${operation}'`)
+    }
+    return op.responses || {}
+  }
+
+  const result = (s: Scenario, errors: string[]): ContractResult => ({
+    operation: s.operation,
+    status: s.status,
+    name: s.name,
+    passed: errors.length === 0,
+    errors,
+  })
+
+  const check = async (s: Scenario): Promise<ContractResult> => {
+    const responses = responsesOf(s.operation)
+    const codes = Object.keys(responses)
+    const errors: string[] = []
+    let res: ContractResponse
+    try {
+      res = await s.send(app)
+    } catch (err) {
+      errors.push(`request failed: ${(err as Error).message}`)
+      return result(s, errors)
+    }
+    if (!statusMatches(s.status, res.status, codes)) {
+      errors.push(`expected status ${s.status}, received ${res.status}`)
+    }
+    const content = responses[s.status].content || {}
+    const contentType = header(res, 'Content-Type')
+    const mediaType = contentType?.split(';')[0].trim().toLowerCase()
+    if (Object.keys(content).length === 0) {
+      const body = res.text ?? ''
+      if (body !== '') {
+        errors.push(`unexpected body for status ${s.status}`)
+      }
+    } else if (!mediaType) {
+      errors.push('missing content type')
+    } else {
+      const media = findContent(
+        Object.keys(content).reduce((acc, t) => {
+          acc[t.toLowerCase()] = content[t]
+          return acc
+        }, {} as OpenAPI3.ContentItem),
+        mediaType
+      )
+      if (!media) {
+        errors.push(`undeclared content type '${mediaType}'`)
+      } else if (media.schema) {
+        const validate = validator().compile(media.schema)
+        if (!validate(responseBody(res, mediaType))) {
+          for (const e of validate.errors || []) {
+            errors.push(`body${e.instancePath} ${e.message}`)
+          }
+        }
+      }
+    }
+    return result(s, errors)
+  }
+
+  const contract = {
+    /**
+     * Every documented operation and status code
+     */
+    cases: (): ContractCase[] =>
+      [...operations.keys()].reduce((acc, operation) => {
+        for (const status of Object.keys(responsesOf(operation))) {
+          acc.push({ operation, status })
+        }
+        return acc
+      }, [] as ContractCase[]),
+
+    /**
+     * Register a request expected to produce a documented response
+     */
+    scenario: (
+      operation: string,
+      status: string | number,
+      send: ContractSend,
+      name?: string
+    ) => {
+      const code = String(status)
+      if (!responsesOf(operation)[code]) {
+        throw new Error(`'${operation}' documents no ${code} response`)
+      }
+      scenarios.push({
+        operation,
+        status: code,
+        send,
+        name: name ?? `${operation} ${code}`,
+      })
+      return contract
+    },
+
+    /**
+     * Run the registered scenarios in order
+     */
+    run: async (): Promise<ContractResult[]> => {
+      const out: ContractResult[] = []
+      for (const s of scenarios) {
+        const result = await check(s)
+        exercised.add(`${s.operation} ${s.status}`)
+        out.push(result)
+      }
+      results.push(...out)
+      return out
+    },
+
+    /**
+     * Documented responses no scenario has exercised
+     */
+    uncovered: (): ContractCase[] =>
+      contract
+        .cases()
+        .filter((c) => !exercised.has(`${c.operation} ${c.status}`)),
+
+    /**
+     * Print the coverage of documented responses and failed scenarios
+     */
+    report: (print: (report: string) => void = console.log): string => {
+      const cases = contract.cases()
+      const uncovered = contract.uncovered()
+      const failed = results.filter((r) => !r.passed)
+      const lines = [
+        `contract coverage: ${cases.length - uncovered.length}/${
+          cases.length
+        } documented responses exercised`,
+        ...(uncovered.length ? ['not exercised:'] : []),
+        ...uncovered.map((c) => `  ${c.operation} ${c.status}`),
+        ...(failed.length ? ['failed:'] : []),
+        ...failed.map((r) => `  ${r.name}: ${r.errors.join(', ')}`),
+      ]
+      const report = lines.join('\n')
+      print(report)
+      return report
+    },
+  }
+  return contract
+}
@@ -0,0 +1,25 @@
+/**
+ * parseCookies
+ *
+ * Parse a `Cookie` request header into a name/value record
+ */
+export const parseCookies = (header?: string): Record<string, string> =>
+  (header || '').split(';').reduce((acc, pair) => {
+    const idx = pair.indexOf('=')
+    if (idx < 0) {
+      return acc
+    }
+    const name = pair.slice(0, idx).trim()
+    let value = pair.slice(idx + 1).trim()
+    if (value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1)
+    }
+    if (name && !(name in acc)) {
+      try {
+        acc[name] = decodeURIComponent(value)
+      } catch (e) {
+        acc[name] = value
+      }
+    }
+    return acc
+  }, {} as Record<string, string>)
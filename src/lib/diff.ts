@@ -0,0 +1,385 @@
+import * as OpenAPI3 from '../types/open-api-3'
+import { schemaPrefix } from './components'
+import { specOperations } from './document'
+
+export type SpecChangeType = 'breaking' | 'non-breaking'
+
+export interface SpecChange {
+  type: SpecChangeType
+  /** `METHOD /path` as documented in the current version */
+  operation: string
+  /** where in the operation the change is, e.g. `query.limit` */
+  location: string
+  message: string
+}
+
+type SpecSource = OpenAPI3.AppObject | OpenAPI3.SpecDocument
+
+// schemas sent by clients and schemas received by them change in opposite ways
+type Direction = 'request' | 'response'
+
+interface Side {
+  doc: OpenAPI3.SpecDocument
+  schema: OpenAPI3.ParamSchema
+}
+
+const deref = (
+  doc: OpenAPI3.SpecDocument,
+  schema: OpenAPI3.ParamSchema | undefined
+): OpenAPI3.ParamSchema => {
+  let s = schema || {}
+  for (let i = 0; s.$ref && i < 16; i++) {
+    s = s.$ref.startsWith(schemaPrefix)
+      ? doc.components?.schemas?.[s.$ref.slice(schemaPrefix.length)] || {}
+      : {}
+  }
+  return s
+}
+
+// path parameter names do not tell operations apart
+const operationKey = (method: string, path: string) =>
+  `${method.toUpperCase()} ${path.replace(/\{[^}]+\}/g, '{}')}`
+
+const operations = (doc: OpenAPI3.SpecDocument) =>
+  specOperations(doc).reduce((acc, op) => {
+    acc.set(operationKey(op.method, op.path), op)
+    return acc
+  }, new Map<string, ReturnType<typeof specOperations>[number]>())
+
+const join = (location: string, key: string) =>
+  location ? `${location}.${key}` : key
+
+// lower bounds tightened when raised, upper bounds when lowered
+const lowerBounds = ['minimum', 'minLength', 'minItems', 'minProperties']
+const upperBounds = ['maximum', 'maxLength', 'maxItems', 'maxProperties']
+
+/**
+ * diffSchema
+ *
+ * Classify the changes between two versions of a schema. Narrowing what
+ * a request accepts or widening what a response returns breaks clients
+ */
+const diffSchema = (
+  before: Side,
+  after: Side,
+  direction: Direction,
+  location: string,
+  out: (type: SpecChangeType, location: string, message: string) => void,
+  seen = new Set<string>()
+): void => {
+  const key = `${JSON.stringify(before.schema)}|${JSON.stringify(after.schema)}`
+  if (seen.has(key)) {
+    return
+  }
+  seen.add(key)
+  const a = deref(before.doc, before.schema)
+  const b = deref(after.doc, after.schema)
+  const breaking = (widened: boolean): SpecChangeType =>
+    widened === (direction === 'response') ? 'breaking' : 'non-breaking'
+  const where = location || 'body'
+
+  if ((a.type || b.type) && a.type !== b.type) {
+    out('breaking', where, `type changed from ${a.type} to ${b.type}`)
+    return
+  }
+  if (a.format !== b.format && b.format) {
+    out('breaking', where, `format changed from ${a.format} to ${b.format}`)
+  }
+  if (!!a.nullable !== !!b.nullable) {
+    out(
+      breaking(!!b.nullable),
+      where,
+      b.nullable ? 'became nullable' : 'is no longer nullable'
+    )
+  }
+  if (a.enum || b.enum) {
+    const was = (a.enum || []) as unknown[]
+    const is = (b.enum || []) as unknown[]
+    const removed = a.enum ? was.filter((e) => !is.includes(e)) : []
+    const added = b.enum ? is.filter((e) => !was.includes(e)) : []
+    if (!a.enum || removed.length) {
+      out(
+        breaking(false),
+        where,
+        `enum narrowed${
+          removed.length ? `, removed ${removed.join(', ')}` : ''
+        }`
+      )
+    }
+    if (a.enum && (!b.enum || added.length)) {
+      out(
+        breaking(true),
+        where,
+        `enum widened${added.length ? `, added ${added.join(', ')}` : ''}`
+      )
+    }
+  }
+  for (const bound of [...lowerBounds, ...upperBounds]) {
+    const was = (a as Record<string, unknown>)[bound] as number | undefined
+    const is = (b as Record<string, unknown>)[bound] as number | undefined
+    if (was === is) {
+      continue
+    }
+    const lower = lowerBounds.includes(bound)
+    const narrowed =
+      is !== undefined && (was === undefined || (lower ? is > was : is < was))
+    out(
+      breaking(!narrowed),
+      where,
+      `${bound} changed from ${was ?? 'none'} to ${is ?? 'none'}`
+    )
+  }
+  if (a.pattern !== b.pattern) {
+    out(
+      b.pattern && direction === 'request' ? 'breaking' : 'non-breaking',
+      where,
+      `pattern changed from ${a.pattern ?? 'none'} to ${b.pattern ?? 'none'}`
+    )
+  }
+
+  const props = new Set([
+    ...Object.keys(a.properties || {}),
+    ...Object.keys(b.properties || {}),
+  ])
+  const wasRequired = a.required || []
+  const isRequired = b.required || []
+  for (const name of props) {
+    const loc = join(location, name)
+    const was = a.properties?.[name]
+    const is = b.properties?.[name]
+    if (was && !is) {
+      out(
+        direction === 'response' || b.additionalProperties === false
+          ? 'breaking'
+          : 'non-breaking',
+        loc,
+        'property removed'
+      )
+    } else if (!was && is) {
+      const required = isRequired.includes(name)
+      out(
+        direction === 'request' && required ? 'breaking' : 'non-breaking',
+        loc,
+        `${required ? 'required' : 'optional'} property added`
+      )
+    } else {
+      if (!wasRequired.includes(name) && isRequired.includes(name)) {
+        out(breaking(false), loc, 'became required')
+      }
+      if (wasRequired.includes(name) && !isRequired.includes(name)) {
+        out(breaking(true), loc, 'became optional')
+      }
+      diffSchema(
+        { doc: before.doc, schema: was },
+        { doc: after.doc, schema: is },
+        direction,
+        loc,
+        out,
+        seen
+      )
+    }
+  }
+  if (a.items || b.items) {
+    diffSchema(
+      { doc: before.doc, schema: a.items },
+      { doc: after.doc, schema: b.items },
+      direction,
+      join(location, '[]'),
+      out,
+      seen
+    )
+  }
+}
+
+const asDocument = (src: SpecSource) => src as OpenAPI3.SpecDocument
+
+/**
+ * diffSpecs
+ *
+ * Compare two versions of a document, classifying every
+ * change as breaking or non-breaking for existing clients
+ *
+ * ```typescript
+ * const previous = JSON.parse(readFileSync('openapi.previous.json', 'utf8'))
+ * const changes = diffSpecs(previous, App(app, def, ...controllers))
+ * if (changes.some((c) => c.type === 'breaking')) {
+ *   console.log(diffReport(changes))
+ * }
+ * ```
+ */
+export const diffSpecs = (
+  previous: SpecSource,
+  current: SpecSource
+): SpecChange[] => {
+  const before = asDocument(previous)
+  const after = asDocument(current)
+  const changes: SpecChange[] = []
+  const was = operations(before)
+  const is = operations(after)
+
+  for (const [key, op] of was) {
+    if (!is.has(key)) {
+      changes.push({
+        type: 'breaking',
+        operation: `${op.method.toUpperCase()} ${op.path}`,
+        location: '',
+        message: 'operation removed',
+      })
+    }
+  }
+  for (const [key, next] of is) {
+    const operation = `${next.method.toUpperCase()} ${next.path}`
+    const prev = was.get(key)
+    const change = (type: SpecChangeType, location: string, message: string) =>
+      changes.push({ type, operation, location, message })
+    if (!prev) {
+      change('non-breaking', '', 'operation added')
+      continue
+    }
+
+    // parameters
+    const params = (op: typeof next) =>
+      ((op.operation.parameters || []) as OpenAPI3.Parameter[]).reduce(
+        (acc, p) => {
+          // path parameters are matched by position
+          const idx =
+            p.in === 'path'
+              ? (op.path.match(/\{[^}]+\}/g) || ([] as string[])).indexOf(
+                  `{${p.name}}`
+                )
+              : -1
+          const name = idx >= 0 ? `{${idx}}` : p.name
+          acc.set(`${p.in}.${name}`, p)
+          return acc
+        },
+        new Map<string, OpenAPI3.Parameter>()
+      )
+    const prevParams = params(prev)
+    const nextParams = params(next)
+    for (const [loc, p] of prevParams) {
+      if (!nextParams.has(loc)) {
+        change('non-breaking', `${p.in}.${p.name}`, 'parameter removed')
+      }
+    }
+    for (const [loc, p] of nextParams) {
+      const old = prevParams.get(loc)
+      const location = `${p.in}.${p.name}`
+      if (!old) {
+        change(
+          p.required ? 'breaking' : 'non-breaking',
+          location,
+          `${p.required ? 'required' : 'optional'} parameter added`
+        )
+        continue
+      }
+      if (!old.required && p.required) {
+        change('breaking', location, 'parameter became required')
+      } else if (old.required && !p.required) {
+        change('non-breaking', location, 'parameter became optional')
+      }
+      diffSchema(
+        { doc: before, schema: old.schema },
+        { doc: after, schema: p.schema },
+        'request',
+        location,
+        change
+      )
+    }
+
+    // request body
+    const prevBody = prev.operation.requestBody
+    const nextBody = next.operation.requestBody
+    if (nextBody && !prevBody) {
+      change(
+        nextBody.required ? 'breaking' : 'non-breaking',
+        'requestBody',
+        `${nextBody.required ? 'required' : 'optional'} request body added`
+      )
+    } else if (prevBody && !nextBody) {
+      change('breaking', 'requestBody', 'request body removed')
+    } else if (prevBody && nextBody) {
+      if (!prevBody.required && nextBody.required) {
+        change('breaking', 'requestBody', 'request body became required')
+      }
+      const prevContent = prevBody.content || {}
+      const nextContent = nextBody.content || {}
+      for (const type of Object.keys(prevContent)) {
+        const location = `requestBody.${type}`
+        if (!nextContent[type]) {
+          change('breaking', location, 'media type removed')
+        } else {
+          diffSchema(
+            { doc: before, schema: prevContent[type].schema },
+            { doc: after, schema: nextContent[type].schema },
+            'request',
+            location,
+            change
+          )
+        }
+      }
+      for (const type of Object.keys(nextContent)) {
+        if (!prevContent[type]) {
+          change('non-breaking', `requestBody.${type}`, 'media type added')
+        }
+      }
+    }
+
+    // responses
+    const prevResponses = prev.operation.responses || {}
+    const nextResponses = next.operation.responses || {}
+    for (const code of Object.keys(prevResponses)) {
+      const location = `responses.${code}`
+      if (!nextResponses[code]) {
+        change(
+          /^2/.test(code) ? 'breaking' : 'non-breaking',
+          location,
+          'response removed'
+        )
+        continue
+      }
+      const prevContent = prevResponses[code].content || {}
+      const nextContent = nextResponses[code].content || {}
+      for (const type of Object.keys(prevContent)) {
+        if (!nextContent[type]) {
+          change('breaking', `${location}.${type}`, 'media type removed')
+        } else {
+          diffSchema(
+            { doc: before, schema: prevContent[type].schema },
+            { doc: after, schema: nextContent[type].schema },
+            'response',
+            `${location}.${type}`,
+            change
+          )
+        }
+      }
+      for (const type of Object.keys(nextContent)) {
+        if (!prevContent[type]) {
+          change('non-breaking', `${location}.${type}`, 'media type added')
+        }
+      }
+    }
+    for (const code of Object.keys(nextResponses)) {
+      if (!prevResponses[code]) {
+        change('non-breaking', `responses.${code}`, 'response added')
+      }
+    }
+  }
+  return changes
+}
+
+/**
+ * diffReport
+ *
+ * Summarize changes, breaking changes first
+ */
+export const diffReport = (changes: SpecChange[]): string => {
+  const breaking = changes.filter((c) => c.type === 'breaking')
+  const other = changes.filter((c) => c.type !== 'breaking')
+  const line = (c: SpecChange) =>
+    `  ${c.operation}${c.location ? ` ${c.location}` : ''}: ${c.message}`
+  return [
+    `${breaking.length} breaking, ${other.length} non-breaking changes`,
+    ...(breaking.length ? ['', 'Breaking:', ...breaking.map(line)] : []),
+    ...(other.length ? ['', 'Non-breaking:', ...other.map(line)] : []),
+  ].join('\n')
+}
@@ -0,0 +1,135 @@
+import Ajv from 'ajv'
+import * as OpenAPI3 from '../types/open-api-3'
+import { AjvOption, createAjv } from './ajv'
+import { schemaPrefix } from './components'
+import { HttpMethods } from './methods'
+
+// OpenAPI3 schema annotations unknown to AJV
+const oasKeywords = ['example', 'xml', 'externalDocs', 'discriminator']
+
+export interface SpecOperation {
+  path: string
+  method: string
+  operation: Omit<OpenAPI3.PathOperation, 'middleware'>
+}
+
+const isReference = (o: unknown): o is OpenAPI3.Reference =>
+  typeof o === 'object' &&
+  o !== null &&
+  typeof (o as OpenAPI3.Reference).$ref === 'string'
+
+/**
+ * resolveRef
+ *
+ * Resolve a local `$ref` JSON pointer against the document
+ */
+export const resolveRef = <T>(
+  doc: OpenAPI3.SpecDocument,
+  node: T | OpenAPI3.Reference,
+  seen: string[] = []
+): T => {
+  if (!isReference(node)) {
+    return node
+  }
+  const ref = node.$ref
+  if (!ref.startsWith('#/') || seen.includes(ref)) {
+    throw new Error(`unresolvable reference '${ref}'`)
+  }
+  const target = ref
+    .slice(2)
+    .split('/')
+    .map((p) => p.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>(
+      (acc, p) =>
+        acc && typeof acc === 'object'
+          ? (acc as Record<string, unknown>)[p]
+          : undefined,
+      doc
+    )
+  if (target === undefined) {
+    throw new Error(`unresolvable reference '${ref}'`)
+  }
+  return resolveRef<T>(doc, target as T, [...seen, ref])
+}
+
+/**
+ * expressPath
+ *
+ * Convert an OpenAPI3 path template into an express.js path
+ *
+ * `/users/{id}` -> `/users/:id`
+ */
+export const expressPath = (template: string): string =>
+  template.replace(/\{([^}]*)\}/g, (_m, name: string) => {
+    if (!/^\w+$/.test(name)) {
+      throw new Error(
+        `path parameter '${name}' in '${template}' is not a valid express.js parameter name`
+      )
+    }
+    return `:${name}`
+  })
+
+/**
+ * specOperations
+ *
+ * List the operations of a document with path-level parameters merged in
+ * and parameter and requestBody references resolved.
+ *
+ * Schema references are left for AJV to resolve
+ */
+export const specOperations = (doc: OpenAPI3.SpecDocument): SpecOperation[] =>
+  Object.keys(doc.paths || {}).reduce((acc, path) => {
+    const item = resolveRef(doc, doc.paths[path])
+    const shared = (item.parameters || []).map((p) =>
+      resolveRef<OpenAPI3.Parameter>(doc, p)
+    )
+    for (const method of HttpMethods.filter((m) => item[m])) {
+      const op = item[method] as OpenAPI3.PathOperation
+      const own = (op.parameters || []).map((p) =>
+        resolveRef<OpenAPI3.Parameter>(doc, p)
+      )
+      // operation parameters override path parameters by name and location
+      const parameters = [
+        ...shared.filter(
+          (s) => !own.some((o) => o.name === s.name && o.in === s.in)
+        ),
+        ...own,
+      ]
+      acc.push({
+        path,
+        method,
+        operation: {
+          ...op,
+          ...(parameters.length ? { parameters } : {}),
+          ...(op.requestBody
+            ? { requestBody: resolveRef(doc, op.requestBody) }
+            : {}),
+        },
+      })
+    }
+    return acc
+  }, [] as SpecOperation[])
+
+/**
+ * specAjv
+ *
+ * AJV instance resolving the document's `components.schemas` references
+ */
+export const specAjv = (
+  doc: OpenAPI3.SpecDocument,
+  opt: AjvOption = {}
+): Ajv => {
+  const v = opt instanceof Ajv ? opt : createAjv(opt)
+  for (const k of oasKeywords) {
+    if (!v.RULES.keywords[k]) {
+      v.addKeyword(k)
+    }
+  }
+  const schemas = doc.components?.schemas || {}
+  for (const name of Object.keys(schemas)) {
+    if (!v.schemas[`${schemaPrefix}${name}`]) {
+      v.addSchema(schemas[name], `${schemaPrefix}${name}`)
+    }
+  }
+  return v
+}
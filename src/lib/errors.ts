@@ -9,9 +9,22 @@ export class AejoError extends Error {
 }
 
 export class ValidationError extends AejoError {
-  constructor(message: string, public context: unknown) {
+  constructor(
+    message: string,
+    public context: unknown,
+    public location?: string
+  ) {
     super(message)
     this.name = "ValidationError"
     this.context = context
+    this.location = location
+  }
+}
+
+export class HttpError extends AejoError {
+  constructor(public status: number, message: string) {
+    super(message)
+    this.name = "HttpError"
+    this.status = status
   }
 }
@@ -0,0 +1,497 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+import express, { Express, NextFunction, Request, Response } from 'express'
+import Ajv from 'ajv'
+import * as OpenAPI3 from '../types/open-api-3'
+import { AjvOption } from './ajv'
+import { addComponents } from './components'
+import { specAjv, specOperations } from './document'
+import { ValidationError } from './errors'
+import { between, hash, mockData, pick, random } from './mock'
+import { problemDetails } from './problem'
+
+export interface FuzzOptions {
+  /** cases per operation */
+  runs?: number
+  /** seed of the generated inputs, reported with every failure */
+  seed?: number
+  /** AJV instance or options the application validates with */
+  ajv?: AjvOption
+  /** headers sent with every request, e.g. credentials */
+  headers?: Record<string, string>
+}
+
+export interface FuzzRequest {
+  method: string
+  url: string
+  headers: Record<string, string>
+  body?: unknown
+}
+
+export interface FuzzFailure {
+  /** `METHOD /path` as documented */
+  operation: string
+  /** run seed and case reproducing the failure */
+  seed: number
+  run: number
+  input: 'valid' | 'invalid'
+  reason: string
+  status: number
+  request: FuzzRequest
+}
+
+export interface FuzzReport {
+  seed: number
+  cases: number
+  /** generated inputs the validators disagree with the intent of */
+  skipped: number
+  failures: FuzzFailure[]
+}
+
+type Random = () => number
+type Resolve = (ref: string) => OpenAPI3.ParamSchema | undefined
+type Location = 'path' | 'query' | 'header' | 'cookie'
+
+interface FuzzCase {
+  params: { [loc in Location]: Record<string, unknown> }
+  body?: unknown
+}
+
+const locations: Location[] = ['path', 'query', 'header', 'cookie']
+
+const missing = Symbol('missing')
+
+const deref = (schema: OpenAPI3.ParamSchema, resolve: Resolve) => {
+  let s = schema
+  for (let i = 0; s?.$ref && i < 16; i++) {
+    s = resolve(s.$ref)
+  }
+  return s || {}
+}
+
+/**
+ * validValue
+ *
+ * Value matching a schema, leaving out optional properties
+ * and varying array lengths more than mock data does
+ */
+const validValue = (
+  schema: OpenAPI3.ParamSchema,
+  rnd: Random,
+  resolve: Resolve,
+  depth = 0
+): unknown => {
+  const s = deref(schema, resolve)
+  if (s.enum || s.oneOf || s.anyOf || s.allOf || depth > 4) {
+    return mockData(s, rnd, resolve)
+  }
+  if (s.type === 'array') {
+    const min = s.minItems ?? 0
+    return Array.from(
+      { length: between(rnd, min, s.maxItems ?? min + 3) },
+      () => validValue(s.items, rnd, resolve, depth + 1)
+    )
+  }
+  if (s.type === 'object' || s.properties) {
+    const required = s.required || []
+    return Object.keys(s.properties || {})
+      .filter((k) => required.includes(k) || rnd() < 0.5)
+      .reduce((acc, k) => {
+        acc[k] = validValue(s.properties[k], rnd, resolve, depth + 1)
+        return acc
+      }, {} as Record<string, unknown>)
+  }
+  // constrained values in place of the documented ones half of the time
+  return mockData(
+    rnd() < 0.5 ? s : { ...s, example: undefined, default: undefined },
+    rnd,
+    resolve
+  )
+}
+
+/**
+ * invalidValues
+ *
+ * Candidate values breaking one constraint of a schema,
+ * `text` limits them to values sent as strings
+ */
+const invalidValues = (
+  schema: OpenAPI3.ParamSchema,
+  rnd: Random,
+  resolve: Resolve,
+  text: boolean
+): unknown[] => {
+  const s = deref(schema, resolve)
+  const out: unknown[] = []
+  if (s.enum) {
+    out.push('%not-enumerated%')
+  }
+  switch (s.type) {
+    case 'string':
+      if (!text) {
+        out.push(42)
+      }
+      if (s.minLength) {
+        out.push('x'.repeat(s.minLength - 1))
+      }
+      if (s.maxLength !== undefined) {
+        out.push('x'.repeat(s.maxLength + 1))
+      }
+      if (s.format || s.pattern) {
+        out.push('%invalid%')
+      }
+      break
+    case 'integer':
+    case 'number':
+      out.push('abc')
+      if (s.type === 'integer') {
+        out.push(1.5)
+      }
+      if (s.minimum !== undefined) {
+        out.push(s.minimum - 1)
+      }
+      if (s.maximum !== undefined) {
+        out.push(s.maximum + 1)
+      }
+      break
+    case 'boolean':
+      out.push('maybe')
+      break
+    case 'array':
+      if (!text) {
+        out.push('not-an-array')
+      }
+      if (s.minItems) {
+        out.push([])
+      }
+      if (s.maxItems !== undefined) {
+        out.push(
+          Array.from({ length: s.maxItems + 1 }, () =>
+            mockData(s.items, rnd, resolve)
+          )
+        )
+      }
+      if (s.items) {
+        for (const item of invalidValues(s.items, rnd, resolve, text)) {
+          out.push([item])
+        }
+      }
+      break
+  }
+  if (!text && (s.type === 'object' || s.properties)) {
+    out.push('not-an-object')
+    const valid = validValue(s, rnd, resolve) as Record<string, unknown>
+    for (const name of s.required || []) {
+      const rest = { ...valid }
+      delete rest[name]
+      out.push(rest)
+    }
+    if (s.additionalProperties === false) {
+      out.push({ ...valid, '%extra%': true })
+    }
+    const props = Object.keys(s.properties || {})
+    if (props.length) {
+      const name = pick(rnd, props)
+      for (const v of invalidValues(s.properties[name], rnd, resolve, text)) {
+        out.push({ ...valid, [name]: v })
+      }
+    }
+  }
+  return out
+}
+
+// string form of a value sent in a path, query, header or cookie
+const wire = (v: unknown, loc: Location): unknown => {
+  if (Array.isArray(v) && loc === 'query') {
+    const items = v.map((i) => String(wire(i, 'path')))
+    // a single repeated key is parsed back into a string
+    return items.length === 1 ? items[0] : items
+  }
+  if (Array.isArray(v)) {
+    return v.map((i) => wire(i, loc)).join(',')
+  }
+  return v !== null && typeof v === 'object' ? JSON.stringify(v) : String(v)
+}
+
+const paramSchema = (params: OpenAPI3.Parameter[]) =>
+  params.reduce(
+    (acc, p) => {
+      // express.js lower-cases incoming header names
+      const name = p.in === 'header' ? p.name.toLowerCase() : p.name
+      acc.properties[name] = p.schema
+      if (p.required || p.in === 'path') {
+        acc.required.push(name)
+      }
+      return acc
+    },
+    { type: 'object', properties: {}, required: [] } as {
+      type: 'object'
+      properties: Record<string, OpenAPI3.ParamSchema>
+      required: string[]
+    }
+  )
+
+const clone = <T>(v: T): T =>
+  v === undefined ? v : JSON.parse(JSON.stringify(v))
+
+const send = (
+  port: number,
+  req: FuzzRequest
+): Promise<{ status: number; type: string; text: string }> =>
+  new Promise((resolve, reject) => {
+    const payload =
+      req.body === undefined ? undefined : JSON.stringify(req.body)
+    const r = http.request(
+      {
+        host: '127.0.0.1',
+        port,
+        method: req.method,
+        path: req.url,
+        headers: {
+          ...req.headers,
+          ...(payload !== undefined
+            ? {
+                'content-type': 'application/json',
+                'content-length': Buffer.byteLength(payload),
+              }
+            : {}),
+        },
+      },
+      (res) => {
+        const chunks: Buffer[] = []
+        res.on('data', (c: Buffer) => chunks.push(c))
+        res.on('end', () =>
+          resolve({
+            status: res.statusCode || 0,
+            type: String(res.headers['content-type'] || ''),
+            text: Buffer.concat(chunks).toString(),
+          })
+        )
+      }
+    )
+    r.on('error', reject)
+    r.end(payload)
+  })
+
+// validation problems carry the failing values in `errors`
+const isValidationProblem = (res: {
+  status: number
+  type: string
+  text: string
+}) => {
+  if (res.status !== 400 || !res.type.includes('problem+json')) {
+    return false
+  }
+  try {
+    return Array.isArray(JSON.parse(res.text).errors)
+  } catch (e) {
+    return false
+  }
+}
+
+/**
+ * Fuzz
+ *
+ * Fire valid and invalid inputs generated from each operation's
+ * `parameters` and JSON `requestBody` schemas at an application.
+ *
+ * Invalid inputs must be answered with a 400 validation problem, valid
+ * inputs never with one, and no input with a 5xx. Failures carry the seed that
+ * reproduces them with the same `runs`
+ *
+ * ```typescript
+ * const paths = Paths(app, usersController)
+ * const report = await Fuzz(app, paths, { runs: 100, seed: 42 })
+ * expect(report.failures).toEqual([])
+ * ```
+ */
+export const Fuzz = async (
+  app: Express,
+  src: OpenAPI3.AppObject | OpenAPI3.PathItem,
+  opts: FuzzOptions = {}
+): Promise<FuzzReport> => {
+  const { runs = 50, seed = Date.now() % 2147483647, headers = {} } = opts
+  const isDoc = typeof src.openapi === 'string'
+  const doc = (isDoc
+    ? src
+    : { openapi: '3.0.3', paths: src }) as unknown as OpenAPI3.SpecDocument
+  const v: Ajv = addComponents(specAjv(doc, opts.ajv ?? {}), doc)
+  const resolve: Resolve = (ref) =>
+    v.getSchema(ref)?.schema as OpenAPI3.ParamSchema | undefined
+
+  // unhandled validation errors are answered like `ProblemHandler` does
+  const outer = express()
+  outer.use(app)
+  outer.use(
+    (err: unknown, _req: Request, res: Response, next: NextFunction) => {
+      if (err instanceof ValidationError && err.location !== 'response') {
+        const problem = problemDetails(err)
+        res
+          .status(problem.status)
+          .type('application/problem+json')
+          .send(JSON.stringify(problem))
+        return
+      }
+      next(err)
+    }
+  )
+  const server = outer.listen(0, '127.0.0.1')
+  await new Promise((r) => server.once('listening', r))
+  const { port } = server.address() as AddressInfo
+
+  const report: FuzzReport = { seed, cases: 0, skipped: 0, failures: [] }
+  try {
+    for (const { path, method, operation } of specOperations(doc)) {
+      const name = `${method.toUpperCase()} ${path}`
+      const params = ((operation.parameters || []) as OpenAPI3.Parameter[])
+        .filter((p) => locations.includes(p.in as Location))
+        .map((p) => ({ ...p, schema: p.schema || {} }))
+      const json = Object.keys(operation.requestBody?.content || {}).find((t) =>
+        /[/+]json$/i.test(t)
+      )
+      const bodySchema = json && operation.requestBody.content[json].schema
+      const validators = locations.reduce((acc, loc) => {
+        const group = params.filter((p) => p.in === loc)
+        if (group.length) {
+          acc[loc] = v.compile(paramSchema(group))
+        }
+        return acc
+      }, {} as { [loc in Location]?: ReturnType<Ajv['compile']> })
+      const validBody = bodySchema && v.compile(bodySchema)
+
+      // whether the validators accept a case as it is received
+      const accepts = (c: FuzzCase) =>
+        locations.every((loc) => {
+          const valid = validators[loc]
+          if (!valid) {
+            return true
+          }
+          const values = Object.keys(c.params[loc]).reduce((acc, k) => {
+            acc[loc === 'header' ? k.toLowerCase() : k] = wire(
+              c.params[loc][k],
+              loc
+            )
+            return acc
+          }, {} as Record<string, unknown>)
+          return valid(values)
+        }) &&
+        (c.body === undefined
+          ? !operation.requestBody?.required || !validBody
+          : !validBody || validBody(clone(c.body)))
+
+      for (let i = 0; i < runs; i++) {
+        const caseSeed = (seed + i) ^ hash(name)
+        const rnd = random(caseSeed)
+        const input = i % 2 === 0 ? 'valid' : 'invalid'
+        const c: FuzzCase = {
+          params: { path: {}, query: {}, header: {}, cookie: {} },
+        }
+        for (const p of params) {
+          if (p.required || p.in === 'path' || rnd() < 0.7) {
+            c.params[p.in][p.name] = validValue(p.schema, rnd, resolve)
+          }
+        }
+        if (bodySchema && (operation.requestBody.required || rnd() < 0.8)) {
+          c.body = validValue(bodySchema, rnd, resolve)
+        }
+        if (input === 'invalid') {
+          const targets: (OpenAPI3.Parameter | 'body')[] = [
+            ...params,
+            ...(bodySchema ? ['body' as const] : []),
+          ]
+          if (!targets.length) {
+            continue
+          }
+          const target = pick(rnd, targets)
+          const candidates =
+            target === 'body'
+              ? invalidValues(bodySchema, rnd, resolve, false)
+              : [
+                  ...invalidValues(target.schema, rnd, resolve, true),
+                  ...(target.required && target.in !== 'path' ? [missing] : []),
+                ]
+          if (!candidates.length) {
+            report.skipped++
+            continue
+          }
+          const value = pick(rnd, candidates)
+          if (target === 'body') {
+            c.body = value
+          } else if (value === missing) {
+            delete c.params[target.in][target.name]
+          } else {
+            c.params[target.in][target.name] = value
+          }
+        }
+        const pathValues = Object.keys(c.params.path).map((k) =>
+          String(wire(c.params.path[k], 'path'))
+        )
+        // empty path segments route elsewhere
+        if (
+          accepts(c) !== (input === 'valid') ||
+          pathValues.some((p) => p === '')
+        ) {
+          report.skipped++
+          continue
+        }
+
+        const query = Object.keys(c.params.query).flatMap((k) => {
+          const value = wire(c.params.query[k], 'query')
+          return ([] as unknown[])
+            .concat(value)
+            .map(
+              (q) => `${encodeURIComponent(k)}=${encodeURIComponent(String(q))}`
+            )
+        })
+        const cookies = Object.keys(c.params.cookie).map(
+          (k) =>
+            `${k}=${encodeURIComponent(
+              String(wire(c.params.cookie[k], 'cookie'))
+            )}`
+        )
+        const req: FuzzRequest = {
+          method: method.toUpperCase(),
+          url:
+            path.replace(/\{([^}]+)\}/g, (_m, p: string) =>
+              encodeURIComponent(String(wire(c.params.path[p], 'path')))
+            ) + (query.length ? `?${query.join('&')}` : ''),
+          headers: {
+            ...headers,
+            ...Object.keys(c.params.header).reduce((acc, k) => {
+              acc[k] = String(wire(c.params.header[k], 'header'))
+              return acc
+            }, {} as Record<string, string>),
+            ...(cookies.length ? { cookie: cookies.join('; ') } : {}),
+          },
+          ...(c.body !== undefined ? { body: c.body } : {}),
+        }
+
+        report.cases++
+        const res = await send(port, req)
+        const rejected = isValidationProblem(res)
+        const fail = (reason: string) =>
+          report.failures.push({
+            operation: name,
+            seed,
+            run: i,
+            input,
+            reason,
+            status: res.status,
+            request: req,
+          })
+        if (res.status >= 500) {
+          fail(`server error ${res.status}`)
+        } else if (input === 'invalid' && !rejected) {
+          fail(
+            `invalid input answered with ${res.status}, not a validation error`
+          )
+        } else if (input === 'valid' && rejected) {
+          fail('valid input rejected by validation')
+        }
+      }
+    }
+  } finally {
+    await new Promise((r) => server.close(r))
+  }
+  return report
+}
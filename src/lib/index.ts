@@ -8,11 +8,181 @@ import express, {
 } from 'express'
 import * as OpenAPI3 from '../types/open-api-3'
 import Ajv, { SchemaObject, ValidateFunction } from 'ajv'
-import addFormats from 'ajv-formats'
-import { ValidationError } from './errors'
+import { HttpError, ValidationError } from './errors'
+import { responseValidator } from './response'
+import { addComponents, componentSchemas, aoComponent } from './components'
+import { ProblemResponse, problemDetails } from './problem'
+import { AjvOption, ajvInstance, createAjv, operationAjv } from './ajv'
+import { bodyHandler } from './body'
+import { expressPath, specAjv, specOperations } from './document'
+import { MockOptions, mockHandler } from './mock'
+import { duplicateOperations, recordDuplicate } from './lint'
+import { oasPaths } from './path'
+import { HttpMethods } from './methods'
+import { parseCookies } from './cookies'
+import { Security } from './security'
+export { diffSpecs, diffReport, SpecChange, SpecChangeType } from './diff'
 
-export const ajv = new Ajv()
-addFormats(ajv)
+export const ajv = createAjv()
+
+// AJV instances injected through Controller, keyed by express.js router
+const routerAjv = new WeakMap<Router, Ajv>()
+
+// mock mode injected through Controller, keyed by express.js router
+const routerMock = new WeakMap<Router, MockOptions>()
+
+export interface RouteOptions {
+  ajv?: AjvOption
+  /** answer undeclared methods with 405 and undeclared paths with 404 */
+  fallback?: boolean
+  /** answer operations with data generated from their responses */
+  mock?: boolean | MockOptions
+  /** report operations defined more than once by {@link Paths}, defaults to `warn` */
+  duplicates?: 'warn' | 'throw'
+}
+
+const routeOptionKeys = ['ajv', 'fallback', 'mock', 'duplicates']
+
+/** options of a single {@link Route}, the others apply across controllers */
+export type RouterOptions = Pick<RouteOptions, 'ajv' | 'mock'>
+
+const routerOptionKeys = ['ajv', 'mock']
+
+const mockOptions = (mock?: boolean | MockOptions): MockOptions | undefined =>
+  mock === true ? {} : mock || undefined
+
+const isRouteOptions = (o: unknown): o is RouteOptions =>
+  typeof o === 'object' &&
+  o !== null &&
+  Object.keys(o).every((k) => routeOptionKeys.includes(k))
+
+// defaults handed down from a Controller to the operations of its routes
+interface RouteDefaults {
+  tags?: string[]
+  parameters?: OpenAPI3.Parameter[]
+  scope?: OpenAPI3.ScopeObject[]
+}
+
+// route defaults injected through Controller, keyed by express.js router
+const routerDefaults = new WeakMap<Router, RouteDefaults>()
+
+// express.js path -> methods declared on it by every controller of an app
+type MountedMethods = Map<string, string[]>
+
+// where a Controller mounts its router, keyed by express.js router
+interface RouterMount {
+  /** prefixes of the controller and its parents */
+  prefix: string
+  methods: MountedMethods
+}
+
+const routerMount = new WeakMap<Router, RouterMount>()
+
+// parameter names do not tell express.js paths apart
+const mountKey = (path: string) => path.replace(/:\w+/g, ':')
+
+// 405 and 404 handlers, mounted once every controller is, so that
+// no controller's fallback shadows the operations of another
+interface Fallbacks {
+  /** express.js paths by their {@link mountKey} */
+  paths: Map<string, string>
+  prefixes: Set<string>
+}
+
+const mountFallbacks = (
+  router: Router,
+  methods: MountedMethods,
+  fallbacks: Fallbacks,
+  base = ''
+) => {
+  for (const [key, path] of fallbacks.paths) {
+    router.all(
+      path.slice(base.length) || '/',
+      methodNotAllowed(allowedMethods(methods.get(key)))
+    )
+  }
+  for (const prefix of fallbacks.prefixes) {
+    router.use(prefix.slice(base.length) || '/', notFound)
+  }
+}
+
+// options handed down from Paths to each Controller, and to nested ones
+interface ControllerContext extends RouteDefaults {
+  ajv?: Ajv
+  fallback?: boolean
+  mock?: MockOptions
+  fallbacks?: Fallbacks
+  methods?: MountedMethods
+  /** prefixes of the parent controllers */
+  prefix?: string
+}
+
+// mounts a controller on an express.js app or a parent controller's router
+type ControllerFn = (
+  app: Router,
+  ctx?: ControllerContext
+) => OpenAPI3.PathItem[]
+
+/*
+ * tags default to the controller's, parameters and scopes
+ * are added ahead of the operation's own.
+ *
+ * Operations are often module constants mounted by several controllers,
+ * so the defaults go into a copy
+ */
+const inherit = (
+  pathOp: OpenAPI3.PathOperation,
+  defaults: RouteDefaults = {}
+): OpenAPI3.PathOperation => {
+  const op = { ...pathOp }
+  if (defaults.tags?.length && !op.tags?.length) {
+    op.tags = defaults.tags
+  }
+  const inherited = (defaults.parameters || []).filter(
+    (p) => !op.parameters?.some((o) => o.in === p.in && o.name === p.name)
+  )
+  if (inherited.length) {
+    op.parameters = [...inherited, ...(op.parameters || [])]
+  }
+  if (defaults.scope?.length) {
+    // every scope applies along with the operation's own
+    op.security = combineSecurity(
+      ...defaults.scope.map(requirements),
+      op.security?.length ? op.security : [{}]
+    )
+    op.scope = [...defaults.scope, ...(op.scope || [])]
+    op.responses = defaults.scope.reduce(
+      (acc, s) => ({ ...s.responses, ...acc }),
+      op.responses
+    )
+  }
+  return op
+}
+
+const sendProblem = (req: Request, res: Response, err: HttpError) => {
+  res
+    .status(err.status)
+    .type('application/problem+json')
+    .send(JSON.stringify(problemDetails(err, req.originalUrl)))
+}
+
+const methodNotAllowed =
+  (allow: string[]) =>
+  (req: Request, res: Response): void => {
+    res.set('Allow', allow.join(', '))
+    sendProblem(
+      req,
+      res,
+      new HttpError(405, `method ${req.method} not allowed`)
+    )
+  }
+
+const notFound = (req: Request, res: Response): void =>
+  sendProblem(
+    req,
+    res,
+    new HttpError(404, `no operation declared for '${req.originalUrl}'`)
+  )
 
 /**
  * AppRoute
@@ -36,8 +206,6 @@ addFormats(ajv)
  */
 export type AppRoute = { paths: OpenAPI3.PathItem[]; router: Router }
 
-export const App = (a: OpenAPI3.AppObject): OpenAPI3.AppObject => a
-
 /**
  * Controller
  *
@@ -53,31 +221,149 @@ export const App = (a: OpenAPI3.AppObject): OpenAPI3.AppObject => a
  *   prefix: '/api/logs',
  *   route: logsController
  * })
+ *
+ * // validate with its own AJV instance or options
+ * Controller({
+ *   prefix: '/api/logs',
+ *   route: logsController,
+ *   ajv: { coerceTypes: true },
+ * })
+ *
+ * // answer undeclared methods with 405 and undeclared paths with 404
+ * Controller({
+ *   prefix: '/api/logs',
+ *   route: logsController,
+ *   fallback: true,
+ * })
+ *
+ * // skip the route middleware and answer with generated data
+ * Controller({
+ *   prefix: '/api/logs',
+ *   route: logsController,
+ *   mock: { seed: 42 },
+ * })
+ *
+ * // nest controllers, passing down prefixes, tags, parameters and scopes
+ * Controller({
+ *   prefix: '/api/v1',
+ *   scope: [Scope(auth, 'member')],
+ *   controllers: [
+ *     Controller({
+ *       prefix: '/users/:userId/posts',
+ *       tags: ['posts'],
+ *       parameters: [PathParam({ name: 'userId', schema: { type: 'string' } })],
+ *       route: postsController,
+ *     }),
+ *   ],
+ * })
  * ```
  */
 export const Controller =
-  (ctrl: { prefix: string; route: typeof Route }) =>
-  (app: Express): OpenAPI3.PathItem[] => {
-    const paths = ctrl.route(express.Router())
+  (ctrl: {
+    prefix: string
+    route?: typeof Route
+    /** mounted under this controller's prefix, inheriting its defaults */
+    controllers?: ControllerFn[]
+    /** tags of operations without their own */
+    tags?: string[]
+    /** parameters of every operation, such as a `PathParam` in the prefix */
+    parameters?: OpenAPI3.Parameter[]
+    /** scopes securing every operation */
+    scope?: OpenAPI3.ScopeObject[]
+    ajv?: AjvOption
+    fallback?: boolean
+    mock?: boolean | MockOptions
+  }) =>
+  (app: Router, ctx: ControllerContext = {}): OpenAPI3.PathItem[] => {
+    const prefix = `${ctx.prefix || ''}${ctrl.prefix}`
+    // parameters in parent prefixes reach nested routers
+    const router = express.Router({ mergeParams: true })
+    const v = ctrl.ajv ? ajvInstance(ctrl.ajv) : ctx.ajv ?? ajv
+    routerAjv.set(router, v)
+    const mock = mockOptions(ctrl.mock) ?? ctx.mock
+    if (mock) {
+      routerMock.set(router, mock)
+    }
+    const defaults: RouteDefaults = {
+      tags: ctrl.tags ?? ctx.tags,
+      parameters: [...(ctx.parameters || []), ...(ctrl.parameters || [])],
+      scope: [...(ctx.scope || []), ...(ctrl.scope || [])],
+    }
+    routerDefaults.set(router, defaults)
+    const methods: MountedMethods = ctx.methods ?? new Map()
+    routerMount.set(router, { prefix, methods })
+    const paths = ctrl.route ? ctrl.route(router) : { paths: [], router }
     app.use(ctrl.prefix, paths.router)
     if (!Array.isArray(paths.paths)) {
       throw new Error('no controller paths')
     }
+    const fallbacks: Fallbacks = ctx.fallbacks ?? {
+      paths: new Map(),
+      prefixes: new Set(),
+    }
+    if (ctrl.fallback ?? ctx.fallback) {
+      paths.paths.forEach((p) => {
+        Object.keys(p).forEach((k) => {
+          const path = `${prefix}${k}`
+          const key = mountKey(path)
+          if (!fallbacks.paths.has(key)) {
+            fallbacks.paths.set(key, path)
+          }
+        })
+      })
+      fallbacks.prefixes.add(prefix)
+    }
+    const nested = (ctrl.controllers || []).flatMap((c) =>
+      c(paths.router, {
+        ...ctx,
+        ...defaults,
+        ajv: v,
+        mock,
+        fallback: ctrl.fallback ?? ctx.fallback,
+        fallbacks,
+        methods,
+        prefix,
+      })
+    )
+    // outside of Paths, the controller mounts the fallbacks of its own tree
+    if (!ctx.fallbacks) {
+      mountFallbacks(paths.router, methods, fallbacks, prefix)
+    }
     paths.paths.forEach((p) => {
+      /*
+       * replace express.js paths with OpenAPI3 path templates
+       * :id -> {id}
+       * :id(<pattern>) -> {id}
+       * :id? -> with and without {id}
+       * * -> {0}
+       **/
+      const items: OpenAPI3.PathItem = {}
       Object.keys(p).forEach((k) => {
-        /*
-         * replace express.js path parameters with OpenAPI3 formatted strings
-         * :id -> {id}
-         * :id(<pattern>) - {id}
-         **/
-        const pathKey = `${ctrl.prefix}${k}`
-          .replace(/\(.*?\)/g, '')
-          .replace(/:(\w+)/g, '{$1}')
-        p[pathKey] = p[k]
+        const path = `${prefix}${k}`
+        for (const method of Object.keys(p[k])) {
+          const op = p[k][method]
+          for (const oas of oasPaths(path, op.parameters)) {
+            if (items[oas.path]?.[method]) {
+              throw new Error(
+                `'${method.toUpperCase()} ${
+                  oas.path
+                }' is documented twice in '${path}'`
+              )
+            }
+            // every path parameter is documented by a required PathParam
+            items[oas.path] = {
+              ...items[oas.path],
+              [method]: oas.parameters.length
+                ? { ...op, parameters: oas.parameters }
+                : op,
+            }
+          }
+        }
         delete p[k]
       })
+      Object.assign(p, items)
     })
-    return paths.paths
+    return [...paths.paths, ...nested]
   }
 
 /**
@@ -95,33 +381,205 @@ export const Controller =
  *    route: logsController
  *  })
  * )
+ *
+ * // with an application AJV instance or options
+ * Paths(app, { ajv: { coerceTypes: true } }, logs)
+ *
+ * // with 405 and 404 fallback handlers for every controller
+ * Paths(app, { fallback: true }, logs)
+ *
+ * // answer every operation with generated data
+ * Paths(app, { mock: true }, logs)
+ *
+ * // fail at startup when operations are defined more than once
+ * Paths(app, { duplicates: 'throw' }, logs, legacyLogs)
  * ```
  */
 export const Paths = (
   app: Express,
-  ...ctrls: ReturnType<typeof Controller>[]
+  ...args: [RouteOptions, ...ControllerFn[]] | ControllerFn[]
 ): OpenAPI3.PathItem => {
+  const [first, ...rest] = args
+  const opts = isRouteOptions(first) ? first : {}
+  const ctrls = (isRouteOptions(first) ? rest : args) as ControllerFn[]
+  const ctx = {
+    ajv: opts.ajv ? ajvInstance(opts.ajv) : ajv,
+    fallback: opts.fallback,
+    mock: mockOptions(opts.mock),
+    fallbacks: { paths: new Map(), prefixes: new Set() } as Fallbacks,
+    methods: new Map<string, string[]>(),
+  }
+  const collision = (message: string) => {
+    if (opts.duplicates === 'throw') {
+      throw new Error(message)
+    }
+    console.warn(message)
+  }
   const paths = ctrls.reduce(
     (acc, c) => {
-      const paths = c(app)
+      const paths = c(app, ctx)
       paths.forEach((p) => {
-        const [path] = Object.keys(p)
-        const [method] = Object.keys(p[path])
-        const full = `${method} ${path}`
-        if (acc.track.has(full)) {
-          console.warn(`possible duplicate API definition '${full}'`)
-        } else {
-          acc.track.add(full)
+        for (const path of Object.keys(p)) {
+          // path parameter names do not tell paths apart
+          const template = path.replace(/\{[^}]+\}/g, '{}')
+          const known = acc.templates.get(template)
+          if (known === undefined) {
+            acc.templates.set(template, path)
+          } else if (known !== path && !acc.out[path]) {
+            collision(
+              `API path '${path}' differs from '${known}' only in parameter names`
+            )
+          }
+          for (const method of Object.keys(p[path])) {
+            const full = `${method.toUpperCase()} ${path}`
+            const key = `${method.toUpperCase()} ${template}`
+            const first = acc.track.get(key)
+            if (first === undefined) {
+              acc.track.set(key, full)
+              acc.out[path] = { ...acc.out[path], [method]: p[path][method] }
+              continue
+            }
+            // the first definition answers requests, so it is the one documented,
+            // reported by the `no-duplicate-operation` lint rule
+            recordDuplicate(acc.out, first)
+            collision(
+              first === full
+                ? `duplicate API definition '${full}'`
+                : `duplicate API definition '${full}', defined as '${first}'`
+            )
+          }
         }
-        Object.assign(acc.out, p)
       })
       return acc
     },
-    { out: {}, track: new Set<string>() }
+    {
+      out: {} as OpenAPI3.PathItem,
+      templates: new Map<string, string>(),
+      track: new Map<string, string>(),
+    }
   )
+  mountFallbacks(app, ctx.methods, ctx.fallbacks)
   return paths.out
 }
 
+// aejo-only PathOperation properties left out of generated documents
+const internalKeys = [
+  'middleware',
+  'wrapper',
+  'scope',
+  'validateResponses',
+  'validation',
+]
+
+// `components.schemas` of the document a SpecRoute operation is bound from,
+// a symbol key survives operation copies and stays out of generated documents
+const specSchemas = Symbol('specSchemas')
+
+type SpecBoundOperation = OpenAPI3.PathOperation & {
+  [specSchemas]?: { [name: string]: OpenAPI3.ParamSchema }
+}
+
+const docOperation = (op: OpenAPI3.PathOperation): OpenAPI3.PathOperation => {
+  const out = Object.keys(op)
+    .filter((k) => !internalKeys.includes(k))
+    .reduce((acc, k) => ({ ...acc, [k]: op[k] }), {} as OpenAPI3.PathOperation)
+  if (!out.responses || Object.keys(out.responses).length === 0) {
+    out.responses = { default: { description: 'Default response' } }
+  }
+  return out
+}
+
+/**
+ * App
+ *
+ * Build a complete OpenAPI 3.0 document from controllers
+ *
+ * Tag definitions are collected from operation `tags`,
+ * `components.schemas` from referenced {@link SchemaComponent}s and
+ * `components.securitySchemes` from the `Security` objects used in `Scope`
+ *
+ * ```typescript
+ * const doc = App(
+ *  // express app
+ *  app,
+ *  {
+ *    info: {
+ *      title: 'Logs API',
+ *      version: '1.0.0',
+ *    },
+ *    servers: [{ url: 'https://api.example.com' }],
+ *    tags: [{ name: 'logs', description: 'Log records' }],
+ *  },
+ *  Controller({
+ *    prefix: '/api/logs',
+ *    route: logsController
+ *  })
+ * )
+ * ```
+ */
+export const App = (
+  app: Express,
+  def: OpenAPI3.AppDefinition & RouteOptions,
+  ...ctrls: ControllerFn[]
+): OpenAPI3.AppObject => {
+  const { ajv: appAjv, fallback, mock, duplicates, ...docDef } = def
+  const paths = Paths(
+    app,
+    { ajv: appAjv ?? ajv, fallback, mock, duplicates },
+    ...ctrls
+  )
+  const tags = [...(def.tags || [])]
+  const securitySchemes: OpenAPI3.SecuritySchemesObject = {}
+  const specComponents: { [name: string]: OpenAPI3.ParamSchema } = {}
+  const out: OpenAPI3.PathItem = {}
+
+  for (const path of Object.keys(paths)) {
+    out[path] = {}
+    for (const method of Object.keys(paths[path])) {
+      const op: SpecBoundOperation = paths[path][method]
+      Object.assign(specComponents, op[specSchemas])
+      for (const tag of op.tags || []) {
+        if (!tags.some((t) => t.name === tag)) {
+          tags.push({ name: tag })
+        }
+      }
+      for (const s of op.scope || []) {
+        Object.assign(securitySchemes, scopeSchemes(s))
+      }
+      for (const req of op.security || []) {
+        for (const name of Object.keys(req)) {
+          if (!securitySchemes[name]) {
+            throw new Error(`no security scheme defined for '${name}'`)
+          }
+        }
+      }
+      out[path][method] = docOperation(op)
+    }
+  }
+
+  for (const duplicate of duplicateOperations(paths)) {
+    recordDuplicate(out, duplicate)
+  }
+
+  const components: OpenAPI3.Components = {}
+  const schemas = componentSchemas(out, specComponents)
+  if (Object.keys(schemas).length) {
+    components.schemas = schemas
+  }
+  if (Object.keys(securitySchemes).length) {
+    components.securitySchemes = securitySchemes
+  }
+
+  const { openapi = '3.0.3', ...rest } = docDef
+  return {
+    openapi,
+    ...rest,
+    ...(tags.length ? { tags } : {}),
+    paths: out,
+    ...(Object.keys(components).length ? { components } : {}),
+  }
+}
+
 type AsyncRequestHandler = (
   req: Request,
   res: Response,
@@ -152,20 +610,102 @@ export const AsyncWrapper =
 export const ScopeWrapper =
   (cb: RequestHandler, scopes: OpenAPI3.ScopeHandler[]) =>
   (req: Request, res: Response, next: NextFunction): void => {
-    if (scopes.some((v) => v(req, res, next))) {
-      next()
-      return
-    } else {
-      cb(req, res, next)
+    // errors thrown by the denial handler reach express.js too
+    granted(scopes, req, res, next)
+      .then((ok) => (ok ? next() : cb(req, res, next)))
+      .catch(next)
+  }
+
+// scope handlers are tried in order until one grants the request
+const granted = async (
+  scopes: OpenAPI3.ScopeHandler[],
+  req: Request,
+  res: Response,
+  next?: NextFunction
+): Promise<boolean> => {
+  for (const s of scopes) {
+    if (await s(req, res, next)) {
+      return true
     }
   }
+  return false
+}
+
+// answers the requests `check` denies with `deny`, or a 403 without one
+const scopeGuard =
+  (check: OpenAPI3.ScopeCheck, auth: string, deny?: RequestHandler) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    check(req, res)
+      .then((ok) =>
+        ok
+          ? next()
+          : deny
+          ? deny(req, res, next)
+          : next(new HttpError(403, `insufficient scope for '${auth}'`))
+      )
+      .catch(next)
+  }
+
+const requirements = (scope: OpenAPI3.ScopeObject): OpenAPI3.SecurityObject =>
+  scope.security ?? [{ [scope.auth]: scope.scopes }]
 
-export interface Security<S = string> {
-  name: string
-  before?: RequestHandler
-  handler: RequestHandler
-  scopes: OpenAPI3.NamedHandler<S>
-  responses: OpenAPI3.MediaSchemaItem
+/*
+ * requirement objects are alternatives while the keys of one object all
+ * apply, so requiring each of several lists takes one object from each
+ */
+const combineSecurity = (
+  ...lists: OpenAPI3.SecurityObject[]
+): OpenAPI3.SecurityObject =>
+  lists.reduce(
+    (acc, list) =>
+      acc.flatMap((a) =>
+        list.map((r) =>
+          Object.keys(r).reduce(
+            (req, auth) => ({
+              ...req,
+              [auth]: [...new Set([...(req[auth] || []), ...r[auth]])],
+            }),
+            a
+          )
+        )
+      ),
+    [{}] as OpenAPI3.SecurityObject
+  )
+
+const scopeSchemes = (
+  scope: OpenAPI3.ScopeObject
+): OpenAPI3.SecuritySchemesObject =>
+  scope.schemes ?? (scope.scheme ? { [scope.auth]: scope.scheme } : {})
+
+const scopeCheck = (scope: OpenAPI3.ScopeObject): OpenAPI3.ScopeCheck => {
+  if (!scope.check) {
+    throw new Error(`scope '${scope.auth}' can't be combined without a check`)
+  }
+  return scope.check
+}
+
+// parts shared by the AllScopes and AnyScope combinations
+const combined = (
+  scopes: OpenAPI3.ScopeObject[],
+  join: string
+): Omit<OpenAPI3.ScopeObject, 'middleware' | 'check'> => {
+  if (!scopes.length) {
+    throw new Error('no scopes to combine')
+  }
+  return {
+    auth: scopes.map((s) => s.auth).join(join),
+    scopes: [...new Set(scopes.flatMap((s) => s.scopes))],
+    responses: scopes.reduce(
+      (acc, s) => ({ ...acc, ...s.responses }),
+      {} as OpenAPI3.MediaSchemaItem
+    ),
+    before: scopes.flatMap((s) => s.before || []),
+    deny: scopes[0].deny,
+    schemes: scopes.reduce(
+      (acc, s) => ({ ...acc, ...scopeSchemes(s) }),
+      {} as OpenAPI3.SecuritySchemesObject
+    ),
+  }
 }
 
 /**
@@ -191,6 +731,12 @@ export interface Security<S = string> {
  *
  * const auth: Security = {
  *  name: 'auth',
+ *  // documented under `components.securitySchemes`
+ *  scheme: {
+ *    type: 'apiKey',
+ *    in: 'cookie',
+ *    name: 'session',
+ *  },
  *  handler: (_req: Request, res: Response) => {
  *    // unauthorized handler
  *    res.status(400).send('Not Auth')
@@ -213,18 +759,101 @@ export interface Security<S = string> {
 export const Scope = <T = string>(
   security: Security<T>,
   ...scopes: (keyof OpenAPI3.NamedHandler<T>)[]
-): OpenAPI3.ScopeObject => ({
-  auth: security.name,
-  scopes,
-  middleware: [
-    ...(security.before ? [security.before] : []),
-    ScopeWrapper(
-      security.handler,
-      scopes.map((s) => security.scopes[s as string])
-    ),
-  ],
-  responses: security.responses,
-})
+): OpenAPI3.ScopeObject => {
+  const unknown = scopes.filter((s) => !security.scopes[s as string])
+  if (unknown.length) {
+    throw new Error(
+      `security '${security.name}' defines no scope ${unknown.join(', ')}`
+    )
+  }
+  const handlers = scopes.length
+    ? scopes.map((s) => security.scopes[s as string])
+    : security.authenticated
+    ? [security.authenticated]
+    : []
+  const before = security.before ? [security.before] : []
+  return {
+    auth: security.name,
+    ...(security.scheme ? { scheme: security.scheme } : {}),
+    scopes,
+    middleware: [...before, ScopeWrapper(security.handler, handlers)],
+    responses: security.responses,
+    before,
+    check: (req, res) => granted(handlers, req, res),
+    deny: security.handler,
+    // any one of the scopes grants the request
+    security:
+      scopes.length > 1
+        ? scopes.map((s) => ({ [security.name]: [s as string] }))
+        : [{ [security.name]: scopes as string[] }],
+  }
+}
+
+/**
+ * AllScopes
+ *
+ * Require every scope, documented as a single security requirement
+ *
+ * ```typescript
+ * // a session with the `admin` scope and a valid API key
+ * const AdminAuth = AuthPathOp(
+ *   AllScopes(Scope(session, 'admin'), Scope(apiKey))
+ * )
+ * // security: [{ session: ['admin'], apiKey: [] }]
+ * ```
+ */
+export const AllScopes = (
+  ...scopes: OpenAPI3.ScopeObject[]
+): OpenAPI3.ScopeObject => {
+  const checks = scopes.map(scopeCheck)
+  return {
+    ...combined(scopes, ' & '),
+    // each scope answers the requests it denies
+    middleware: scopes.flatMap((s) => s.middleware),
+    check: async (req, res) => {
+      for (const check of checks) {
+        if (!(await check(req, res))) {
+          return false
+        }
+      }
+      return true
+    },
+    security: combineSecurity(...scopes.map(requirements)),
+  }
+}
+
+/**
+ * AnyScope
+ *
+ * Require one of the scopes, documented as alternative security
+ * requirements. Denied requests are answered by the first scope
+ *
+ * ```typescript
+ * // a session with the `admin` scope or a valid API key
+ * const AdminAuth = AuthPathOp(AnyScope(Scope(session, 'admin'), Scope(apiKey)))
+ * // security: [{ session: ['admin'] }, { apiKey: [] }]
+ * ```
+ */
+export const AnyScope = (
+  ...scopes: OpenAPI3.ScopeObject[]
+): OpenAPI3.ScopeObject => {
+  const checks = scopes.map(scopeCheck)
+  const parts = combined(scopes, ' | ')
+  const check: OpenAPI3.ScopeCheck = async (req, res) => {
+    for (const c of checks) {
+      if (await c(req, res)) {
+        return true
+      }
+    }
+    return false
+  }
+  return {
+    ...parts,
+    middleware: [...parts.before, scopeGuard(check, parts.auth, parts.deny)],
+    check,
+    security: scopes.flatMap(requirements),
+  }
+}
 
 /**
  * AuthPathOp
@@ -246,17 +875,56 @@ export const Scope = <T = string>(
  * ```
  */
 export const AuthPathOp =
-  (scope: OpenAPI3.ScopeObject) =>
+  (...scopes: OpenAPI3.ScopeObject[]) =>
   (pop: OpenAPI3.PathObject): OpenAPI3.PathObject => {
     const [m] = Object.keys(pop)
     const ret: OpenAPI3.PathOperation = pop[m]
 
-    ret.security = [{ [scope.auth]: scope.scopes }]
-    ret.scope = [scope]
-    ret.responses = { ...ret.responses, ...scope.responses }
+    // stacked scopes all apply
+    ret.security = combineSecurity(
+      ...(ret.scope?.length ? [ret.security || []] : []),
+      ...scopes.map(requirements)
+    )
+    ret.scope = [...(ret.scope || []), ...scopes]
+    ret.responses = scopes.reduce(
+      (acc, s) => ({ ...acc, ...s.responses }),
+      ret.responses
+    )
     return { [m]: ret }
   }
 
+/**
+ * ValidateResponses
+ *
+ * Opt-in response validation, intended for development and tests.
+ * Payloads sent through `res.json`/`res.send` are checked against
+ * the declared `responses` schema for the status code and content type.
+ *
+ * `throw` raises a `ValidationError`, `report` hands it to a reporter
+ * (`console.warn` by default) and sends the response unchanged.
+ *
+ * ```typescript
+ * const DevResponses = ValidateResponses(
+ *  process.env.NODE_ENV === 'production' ? undefined : 'throw'
+ * )
+ *
+ * DevResponses(
+ *  Get({
+ *    middleware: [
+ *      // express HTTP handler
+ *    ]
+ *  })
+ * )
+ * ```
+ */
+export const ValidateResponses =
+  (mode?: OpenAPI3.ResponseValidationMode | OpenAPI3.ResponseValidation) =>
+  (pop: OpenAPI3.PathObject): OpenAPI3.PathObject =>
+    Object.keys(pop).reduce((acc, m) => {
+      acc[m] = mode ? { ...pop[m], validateResponses: mode } : pop[m]
+      return acc
+    }, {} as OpenAPI3.PathObject)
+
 /**
  * Route
  *
@@ -275,34 +943,170 @@ export const AuthPathOp =
  *    })
  *    )
  *  )
+ *
+ * // validate with an injected AJV instance or options
+ * Route(express.Router(), { ajv: { coerceTypes: true } }, usersPath)
+ *
+ * // answer with data generated from the responses, requests are still validated
+ * Route(express.Router(), { mock: { seed: 1 } }, usersPath)
  * ```
+ *
+ * Routers created by {@link Controller} use the controller's AJV instance
  */
 export const Route = (
   rtr: Router,
-  ...pitems: OpenAPI3.PathItem[]
-): AppRoute => ({
-  paths: pitems,
-  router: pitems.reduce((urtr, pitem) => {
+  ...args: [RouterOptions, ...OpenAPI3.PathItem[]] | OpenAPI3.PathItem[]
+): AppRoute => {
+  const [first, ...rest] = args
+  const opts = isRouteOptions(first) ? first : {}
+  const unsupported = Object.keys(opts)
+    .filter((k) => !routerOptionKeys.includes(k))
+    .map((k) => `'${k}'`)
+  if (unsupported.length) {
+    const keys = unsupported.join(', ')
+    throw new Error(`Route does not support ${keys}, use Paths or Controller`)
+  }
+  const pitems = (isRouteOptions(first) ? rest : args) as OpenAPI3.PathItem[]
+  const v = opts.ajv ? ajvInstance(opts.ajv) : routerAjv.get(rtr) ?? ajv
+  const mock = mockOptions(opts.mock) ?? routerMock.get(rtr)
+  const defaults = routerDefaults.get(rtr)
+  const mount = routerMount.get(rtr) ?? { prefix: '', methods: new Map() }
+  const declared: { [path: string]: string[] } = {}
+  // the operations as mounted here, leaving the caller's untouched
+  const paths: OpenAPI3.PathItem[] = []
+  const router = pitems.reduce((urtr, pitem) => {
+    const item: OpenAPI3.PathItem = {}
     Object.keys(pitem).forEach((path: string) => {
-      Object.keys(pitem[path]).forEach((method: keyof OpenAPI3.PathObject) =>
-        mapRouter(urtr, {
-          pathOp: pitem[path][method],
-          path,
-          method,
-        })
-      )
+      item[path] = {}
+      Object.keys(pitem[path]).forEach((method: keyof OpenAPI3.PathObject) => {
+        declared[path] = [...(declared[path] || []), method]
+        const key = mountKey(`${mount.prefix}${path}`)
+        mount.methods.set(key, [...(mount.methods.get(key) || []), method])
+        const pathOp = inherit(pitem[path][method], defaults)
+        item[path][method] = pathOp
+        mapRouter(urtr, v, { pathOp, path, method, mock })
+      })
     })
+    paths.push(item)
     return urtr
-  }, rtr),
-})
+  }, rtr)
+  // answer OPTIONS from the operations every controller declares on the path,
+  // read per request as controllers mounted later can add to them
+  for (const path of Object.keys(declared)) {
+    if (!declared[path].includes('options')) {
+      const key = mountKey(`${mount.prefix}${path}`)
+      router.options(
+        path,
+        (_req: Request, res: Response, next: NextFunction) => {
+          const methods = mount.methods.get(key)
+          if (methods.includes('options')) {
+            return next()
+          }
+          res.set('Allow', allowedMethods(methods).join(', ')).status(204).end()
+        }
+      )
+    }
+  }
+  return { paths, router }
+}
+
+export interface SpecOptions {
+  ajv?: AjvOption
+  wrapper?: (cb: RequestHandler) => RequestHandler
+}
+
+/**
+ * SpecRoute
+ *
+ * Bind express.js handlers to the operations of an existing
+ * OpenAPI 3 document by `operationId`
+ *
+ * Parameters and request bodies are validated from the document.
+ * Operations without a handler and handlers without an operation
+ * fail at startup
+ *
+ * ```typescript
+ * // parsed from JSON or YAML
+ * import contract from './contract.json'
+ *
+ * Controller({
+ *   prefix: '/api',
+ *   route: (router: Router): AppRoute =>
+ *     SpecRoute(router, contract, {
+ *       listUsers: (req, res) => {
+ *         res.status(200).json([])
+ *       },
+ *       createUser: [audit, createUser],
+ *     }),
+ * })
+ * ```
+ */
+export const SpecRoute = (
+  rtr: Router,
+  doc: OpenAPI3.SpecDocument,
+  handlers: { [operationId: string]: RequestHandler | RequestHandler[] },
+  opts: SpecOptions = {}
+): AppRoute => {
+  const ops = specOperations(doc)
+  const problems: string[] = []
+  const ids = new Set<string>()
+  for (const { path, method, operation } of ops) {
+    const id = operation.operationId
+    if (!id) {
+      problems.push(`operation '${method} ${path}' has no operationId`)
+    } else if (ids.has(id)) {
+      problems.push(`duplicate operationId '${id}'`)
+    } else if (!handlers[id]) {
+      problems.push(`no handler for operation '${id}'`)
+    }
+    ids.add(id)
+  }
+  for (const id of Object.keys(handlers)) {
+    if (!ids.has(id)) {
+      problems.push(`handler '${id}' matches no operation`)
+    }
+  }
+  if (problems.length) {
+    throw new Error(`spec binding failed: ${problems.join(', ')}`)
+  }
+
+  // operations sharing a path go into a single path item
+  const pitems = [...new Set(ops.map((o) => o.path))].map((path) =>
+    Path(
+      expressPath(path),
+      ...ops
+        .filter((o) => o.path === path)
+        .map(({ method, operation }) =>
+          Method(method)({
+            ...operation,
+            ...(opts.wrapper ? { wrapper: opts.wrapper } : {}),
+            middleware: ([] as RequestHandler[]).concat(
+              handlers[operation.operationId]
+            ),
+            [specSchemas]: doc.components?.schemas,
+          } as SpecBoundOperation)
+        )
+    )
+  )
+  // the AJV instance of the controller or Paths, unless one is given
+  const base = opts.ajv ?? routerAjv.get(rtr)
+  return Route(rtr, { ajv: specAjv(doc, base) }, ...pitems)
+}
 
 const mapRouter = (
   urtr: Router,
+  base: Ajv,
   {
     pathOp,
     path,
     method,
-  }: { pathOp: OpenAPI3.PathOperation; path: string; method: string }
+    mock,
+  }: {
+    pathOp: OpenAPI3.PathOperation
+    path: string
+    method: string
+    mock?: MockOptions
+  }
 ) => {
   let wrapper: (cb: RequestHandler) => RequestHandler = (cb) => cb
   if (pathOp.wrapper) {
@@ -310,6 +1114,13 @@ const mapRouter = (
   }
 
   const middle: RequestHandler[] = []
+  // `ProblemResponse` is added to the responses of validated operations
+  const v = addComponents(operationAjv(base, pathOp.validation), [
+    pathOp.parameters,
+    pathOp.requestBody,
+    pathOp.responses,
+    ProblemResponse,
+  ])
 
   // security handler
   if (pathOp.scope) {
@@ -320,21 +1131,33 @@ const mapRouter = (
     }
   }
 
-  const content = pathOp.requestBody?.content['application/json']
-  if (content) {
-    const handler = validateHandler(ajv.compile(content.schema), 'body')
-    middle.push(wrapper(handler))
+  const body = pathOp.requestBody && bodyHandler(v, pathOp.requestBody)
+  // validated operations document the shared problem response
+  if ((body || pathOp.parameters?.length) && !pathOp.responses?.['400']) {
+    pathOp.responses = { '400': ProblemResponse, ...pathOp.responses }
+  }
+  if (body) {
+    middle.push(wrapper(body))
   }
 
   if (pathOp.parameters) {
-    const { handlers } = validate(pathOp.parameters)
+    const { handlers } = validateBuilder(v)(pathOp.parameters)
     for (const h of handlers) {
       middle.push(wrapper(h))
     }
   }
 
-  for (const m of pathOp.middleware) {
-    middle.push(wrapper(m))
+  const responses = responseValidator(v, pathOp)
+  if (responses) {
+    middle.push(responses)
+  }
+
+  if (mock) {
+    middle.push(mockHandler(v, pathOp, `${method} ${path}`, mock))
+  } else {
+    for (const m of pathOp.middleware) {
+      middle.push(wrapper(m))
+    }
   }
 
   urtr[method](path, middle)
@@ -393,11 +1216,34 @@ export const AsyncMethod =
 export const Get = Method('get')
 export const Post = Method('post')
 export const Put = Method('put')
+export const Delete = Method('delete')
+export const Patch = Method('patch')
+export const Head = Method('head')
+export const Options = Method('options')
+export const Trace = Method('trace')
 
 export const AsyncGet = AsyncMethod('get', AsyncWrapper)
 export const AsyncPost = AsyncMethod('post', AsyncWrapper)
 export const AsyncPut = AsyncMethod('put', AsyncWrapper)
 export const AsyncDelete = AsyncMethod('delete', AsyncWrapper)
+export const AsyncPatch = AsyncMethod('patch', AsyncWrapper)
+export const AsyncHead = AsyncMethod('head', AsyncWrapper)
+export const AsyncOptions = AsyncMethod('options', AsyncWrapper)
+export const AsyncTrace = AsyncMethod('trace', AsyncWrapper)
+
+/**
+ * allowedMethods
+ *
+ * `Allow` header methods for the operations declared on a path,
+ * express.js answers HEAD for GET routes and OPTIONS is always answered
+ */
+export const allowedMethods = (methods: string[]): string[] =>
+  HttpMethods.filter(
+    (m) =>
+      methods.includes(m) ||
+      (m === 'head' && methods.includes('get')) ||
+      m === 'options'
+  ).map((m) => m.toUpperCase())
 
 /**
  * Param
@@ -407,8 +1253,11 @@ export const AsyncDelete = AsyncMethod('delete', AsyncWrapper)
  * See {@link QueryParam} and {@link PathParam}
  */
 export const Param =
-  (pin: OpenAPI3.ParamIn) =>
-  (param: Omit<OpenAPI3.Parameter, 'in'>): OpenAPI3.Parameter => ({
+  <I extends OpenAPI3.ParamIn>(pin: I) =>
+  // the name is captured on its own so it stays a literal type
+  <N extends string, P extends Omit<OpenAPI3.Parameter, 'in' | 'name'>>(
+    param: P & { name: N }
+  ): P & { name: N; in: I } => ({
     in: pin,
     ...param,
   })
@@ -459,6 +1308,56 @@ export const QueryParam = Param('query')
  */
 export const PathParam = Param('path')
 
+/**
+ * HeaderParam
+ *
+ * OpenAPI3 HeaderParam Schema builder
+ *
+ * Header names are matched without regard to case
+ *
+ * ```typescript
+ * Put({
+ *  parameters: [
+ *    // require an `If-Match` request header
+ *    HeaderParam({
+ *      name: 'If-Match',
+ *      description: 'record etag',
+ *      required: true,
+ *      schema: {
+ *        type: 'string',
+ *      }
+ *    })
+ *  ]
+ * })
+ * ```
+ */
+export const HeaderParam = Param('header')
+
+/**
+ * CookieParam
+ *
+ * OpenAPI3 CookieParam Schema builder
+ *
+ * Uses `req.cookies` when a cookie parser is installed, otherwise
+ * the `Cookie` request header is parsed
+ *
+ * ```typescript
+ * Get({
+ *  parameters: [
+ *    // require a `session` cookie
+ *    CookieParam({
+ *      name: 'session',
+ *      required: true,
+ *      schema: {
+ *        type: 'string',
+ *      }
+ *    })
+ *  ]
+ * })
+ * ```
+ */
+export const CookieParam = Param('cookie')
+
 export const Integer = (
   sch: Partial<OpenAPI3.ParamSchema>
 ): OpenAPI3.ParamSchema => ({
@@ -471,17 +1370,36 @@ export const validateParams = (
 ): SchemaObject =>
   p.reduce<SchemaObject>(
     (acc, s) => {
-      acc.properties[s.name] = { ...s.schema }
+      // express.js lower-cases incoming header names
+      const name = s.in === 'header' ? s.name.toLowerCase() : s.name
+      acc.properties[name] = { ...s.schema }
       // base-level requirements
       if (s.required === true) {
-        acc.required.push(s.name)
+        acc.required.push(name)
       }
       return acc
     },
     { type: 'object', properties: {}, required: [] } as OpenAPI3.ParamSchema
   )
 
-const inMap = { path: 'params', query: 'query' }
+const inMap = {
+  path: 'params',
+  query: 'query',
+  header: 'headers',
+  cookie: 'cookies',
+}
+
+// headers and cookies are validated as copies, so `removeAdditional`,
+// `useDefaults` and `coerceTypes` cannot rewrite them for later middleware
+const requestValues = (req: Request, whereIn: string): unknown => {
+  if (whereIn === 'cookies') {
+    return { ...(req.cookies ?? parseCookies(req.headers.cookie)) }
+  }
+  if (whereIn === 'headers') {
+    return { ...req.headers }
+  }
+  return req[whereIn]
+}
 
 export const groupByParamIn = (params: OpenAPI3.Parameter[]) =>
   params.reduce((group, p) => {
@@ -503,6 +1421,7 @@ export const validateBuilder =
     handlers: ((req: Request, res: Response, next: NextFunction) => void)[]
     schema: { [p: string]: SchemaObject }
   } => {
+    addComponents(v, s)
     const pIns = groupByParamIn(s)
     const ret: { [p: string]: SchemaObject } = {}
     const handlers: ((
@@ -514,6 +1433,8 @@ export const validateBuilder =
     const validators: ValidateByParam = {
       path: undefined,
       query: undefined,
+      header: undefined,
+      cookie: undefined,
       body: undefined,
     }
 
@@ -528,11 +1449,24 @@ export const validateBuilder =
     return { handlers, schema: ret }
   }
 
+// request property -> OpenAPI3 parameter location
+const locationMap = {
+  params: 'path',
+  query: 'query',
+  headers: 'header',
+  cookies: 'cookie',
+  body: 'body',
+}
+
 const validateHandler =
   (valid: ValidateFunction, whereIn: OpenAPI3.ParamIn) =>
   (req: Request, _res: Response, next: NextFunction) => {
-    if (!valid(req[whereIn])) {
-      throw new ValidationError('AejoValidationError', valid.errors)
+    if (!valid(requestValues(req, whereIn))) {
+      throw new ValidationError(
+        'AejoValidationError',
+        valid.errors,
+        locationMap[whereIn]
+      )
     }
     next()
   }
@@ -542,46 +1476,76 @@ export const validate = validateBuilder(ajv)
 type AONumberType = 'integer' | 'int32' | 'int8' | 'number'
 
 type AOTDataDef<S, D extends Record<string, unknown>> = S extends {
-  type: AONumberType
+  nullable: true
 }
+  ? AOTDataDef<Omit<S, 'nullable'>, D> | null
+  : S extends { oneOf: readonly (infer O)[] }
+  ? AOTDataDef<Omit<S, 'oneOf'> & O, D>
+  : S extends { anyOf: readonly (infer O)[] }
+  ? AOTDataDef<Omit<S, 'anyOf'> & O, D>
+  : S extends { allOf: readonly (infer O)[] }
+  ? AOTDataDef<Omit<S, 'allOf'> & AOUnionToIntersection<O>, D>
+  : S extends { $ref: string; readonly [aoComponent]?: infer C }
+  ? unknown extends C
+    ? unknown
+    : AOTDataDef<C, D>
+  : S extends { enum: readonly (infer E)[] }
+  ? string extends E
+    ? AOTDataDef<Omit<S, 'enum'>, D>
+    : number extends E
+    ? AOTDataDef<Omit<S, 'enum'>, D>
+    : E
+  : S extends { type: AONumberType }
   ? number
   : S extends { type: 'boolean' }
   ? boolean
   : S extends { type: 'timestamp' }
   ? string | Date
-  : S extends { type: 'array'; items: { type: string } }
-  ? AOTDataDef<S['items'], D>[]
-  : S extends { type: 'string'; enum: readonly (infer E)[] }
-  ? string extends E
-    ? never
-    : [E] extends [string]
-    ? E
-    : never
+  : S extends { items: infer I }
+  ? AOTDataDef<I, D>[]
   : S extends { elements: infer E }
   ? AOTDataDef<E, D>[]
   : S extends { type: 'string' }
   ? string
-  : S extends {
-      properties: Record<string, unknown>
-      required?: readonly string[]
-      additionalProperties?: boolean
-    }
+  : S extends { properties: Record<string, unknown> }
   ? {
       -readonly [K in keyof S['properties']]?: AOTDataDef<S['properties'][K], D>
     } & {
-      -readonly [K in S['required'][number]]: AOTDataDef<S['properties'][K], D>
-    } & ([S['additionalProperties']] extends [true]
-        ? Record<string, unknown>
-        : unknown)
+      -readonly [K in AORequiredKeys<S>]-?: AOTDataDef<S['properties'][K], D>
+    } & AOAdditionalData<S, D>
   : S extends { name: string; schema: Record<string, unknown> }
   ? {
       -readonly [K in S['name']]: AOTDataDef<S['schema'], D>
     }
-  : S extends { description: string; schema: Record<string, unknown> }
+  : S extends { schema: Record<string, unknown> }
   ? AODataType<S['schema']>
   : S extends { type: 'object' }
-  ? Record<string, unknown>
-  : null
+  ? AOAdditionalData<S, D> & Record<string, unknown>
+  : unknown
+
+// only literal `required` names can be mapped to required properties
+type AORequiredKeys<S> = S extends {
+  required: readonly (infer R)[]
+  properties: infer P
+}
+  ? Extract<R, keyof P>
+  : never
+
+type AOAdditionalData<S, D extends Record<string, unknown>> = S extends {
+  additionalProperties: infer A
+}
+  ? [A] extends [true]
+    ? Record<string, unknown>
+    : [A] extends [Record<string, unknown>]
+    ? Record<
+        string,
+        | AOTDataDef<A, D>
+        | (S extends { properties: infer P }
+            ? AOTDataDef<P[keyof P], D> | undefined
+            : never)
+      >
+    : unknown
+  : unknown
 
 export type AODataType<S> = AOTDataDef<S, Record<string, never>>
 
@@ -590,6 +1554,195 @@ export type AOParamDef = Record<
   Record<string, Omit<OpenAPI3.Parameter, 'in' | 'name'>>
 >
 
+type AOUnionToIntersection<U> = (
+  U extends unknown ? (k: U) => void : never
+) extends (k: infer I) => void
+  ? I
+  : never
+
+type AOParamEntry<E, I extends OpenAPI3.ParamIn> = E extends {
+  in: I
+  name: infer N
+  schema: infer S
+}
+  ? N extends string
+    ? E extends { required: true } | { in: 'path' }
+      ? { -readonly [K in N]: AODataType<S> }
+      : { -readonly [K in N]?: AODataType<S> }
+    : never
+  : never
+
+type AOOrEmpty<U> = [U] extends [never]
+  ? Record<string, never>
+  : AOUnionToIntersection<U>
+
+/**
+ * Data type of the `parameters` declared in a given location
+ */
+export type AOParamsIn<P, I extends OpenAPI3.ParamIn> = AOOrEmpty<
+  P extends readonly (infer E)[] ? AOParamEntry<E, I> : never
+>
+
+/**
+ * Union of the data types of every declared `requestBody` media type
+ */
+export type AORequestBody<B> = B extends { content: infer M }
+  ? AOContentData<M>
+  : unknown
+
+type AOContentData<M> = {
+  [T in keyof M]: M[T] extends { schema: infer S } ? AODataType<S> : never
+}[keyof M]
+
+/**
+ * Union of the data types of every declared response schema
+ */
+export type AOResponseBody<R> = [
+  {
+    [C in keyof R]: R[C] extends { content: infer M } ? AOContentData<M> : never
+  }[keyof R]
+] extends [infer U]
+  ? [U] extends [never]
+    ? unknown
+    : U
+  : unknown
+
+/**
+ * Express.js handler typed from an operation definition
+ */
+export type AOHandler<P, B, R> = (
+  req: Request<
+    AOParamsIn<P, 'path'>,
+    AOResponseBody<R>,
+    AORequestBody<B>,
+    AOParamsIn<P, 'query'>
+  >,
+  res: Response<AOResponseBody<R>>,
+  next: NextFunction
+) => void | Promise<void>
+
+export interface AOOperation<P, B, R>
+  extends Omit<
+    OpenAPI3.PathOperation,
+    'parameters' | 'requestBody' | 'responses' | 'middleware'
+  > {
+  parameters?: P
+  requestBody?: B
+  responses?: R
+  middleware: AOHandler<P, B, R>[]
+}
+
+/**
+ * Operation
+ *
+ * Typed PathOperation builder
+ *
+ * `req.params`, `req.query` and `req.body` are inferred from the
+ * declared parameters and `requestBody` schema, `res.json` only
+ * accepts the declared response schemas
+ *
+ * ```typescript
+ * Get(
+ *   Operation({
+ *     parameters: [
+ *       QueryParam({
+ *         name: 'limit',
+ *         schema: { type: 'integer' },
+ *       }),
+ *     ],
+ *     responses: {
+ *       '200': {
+ *         description: 'count',
+ *         content: {
+ *           'application/json': {
+ *             schema: {
+ *               type: 'object',
+ *               properties: { count: { type: 'integer' } },
+ *             },
+ *           },
+ *         },
+ *       },
+ *     },
+ *     middleware: [
+ *       (req, res) => {
+ *         // req.query.limit: number | undefined
+ *         res.status(200).json({ count: req.query.limit })
+ *       },
+ *     ],
+ *   })
+ * )
+ * ```
+ */
+export const Operation = <
+  P extends readonly OpenAPI3.Parameter[] = [],
+  B extends OpenAPI3.MediaSchema = never,
+  R extends OpenAPI3.MediaSchemaItem = Record<string, never>
+>(
+  op: AOOperation<P, B, R>
+): OpenAPI3.PathOperation => op as unknown as OpenAPI3.PathOperation
+
+export { ValidationError, AejoError, HttpError } from './errors'
+export { AjvOption, createAjv } from './ajv'
+export { SchemaComponent, ComponentRef } from './components'
+export {
+  Problem,
+  ProblemError,
+  ProblemSchema,
+  ProblemResponse,
+  ProblemHandler,
+  problemDetails,
+} from './problem'
+export { ClientGeneratorOptions, generateClient } from './client'
+export { MockOptions } from './mock'
+export {
+  Contract,
+  ContractCase,
+  ContractOptions,
+  ContractResponse,
+  ContractResult,
+} from './contract'
+export { Fuzz, FuzzFailure, FuzzOptions, FuzzReport, FuzzRequest } from './fuzz'
+export {
+  lint,
+  lintReport,
+  lintRules,
+  LintContext,
+  LintFinding,
+  LintOperation,
+  LintOptions,
+  LintRule,
+  LintSeverity,
+} from './lint'
+export {
+  ExpressParam,
+  OasPath,
+  expressParams,
+  oasPaths,
+  pathParameters,
+} from './path'
+export { parseCookies } from './cookies'
+export { HttpMethods } from './methods'
+export {
+  ApiKeyOptions,
+  ApiKeySecurity,
+  BasicOptions,
+  BasicSecurity,
+  JwtClaims,
+  JwtOptions,
+  JwtSecurity,
+  JwtVerifyOptions,
+  OAuth2Flow,
+  OAuth2Flows,
+  OAuth2Options,
+  OAuth2Security,
+  ScopeRule,
+  ScopeRules,
+  Security,
+  claimScope,
+  principal,
+  verifyJwt,
+} from './security'
+
 export default {
   validate,
   validateParams,
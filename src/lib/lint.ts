@@ -0,0 +1,210 @@
+import * as OpenAPI3 from '../types/open-api-3'
+import { HttpMethods } from './methods'
+
+export type LintSeverity = 'error' | 'warn' | 'off'
+
+export interface LintOperation {
+  path: string
+  method: string
+  operation: OpenAPI3.PathOperation
+}
+
+export interface LintContext {
+  paths: OpenAPI3.PathItem
+  operations: LintOperation[]
+}
+
+export interface LintRule {
+  name: string
+  /** severity unless configured otherwise */
+  severity: LintSeverity
+  description?: string
+  /** messages for each problem found with an operation */
+  check: (op: LintOperation, ctx: LintContext) => string[]
+}
+
+export interface LintFinding {
+  rule: string
+  severity: Exclude<LintSeverity, 'off'>
+  /** `METHOD /path` as documented */
+  operation: string
+  message: string
+}
+
+export interface LintOptions {
+  /** severity overrides by rule name */
+  rules?: { [rule: string]: LintSeverity }
+  /** rules run after the built-in ones */
+  custom?: LintRule[]
+}
+
+// `METHOD /path` definitions repeated across controllers, recorded by Paths
+const duplicates = new WeakMap<OpenAPI3.PathItem, string[]>()
+
+/**
+ * recordDuplicate
+ *
+ * Remember an operation defined more than once for the `PathItem` it was
+ * merged into, reported by the `no-duplicate-operation` rule
+ */
+export const recordDuplicate = (
+  paths: OpenAPI3.PathItem,
+  operation: string
+): void => {
+  duplicates.set(paths, [...(duplicates.get(paths) || []), operation])
+}
+
+/**
+ * duplicateOperations
+ *
+ * Operations recorded as defined more than once
+ */
+export const duplicateOperations = (paths: OpenAPI3.PathItem): string[] =>
+  duplicates.get(paths) || []
+
+const operationKey = (op: LintOperation) =>
+  `${op.method.toUpperCase()} ${op.path}`
+
+const templateParams = (path: string) =>
+  (path.match(/\{[^}]+\}/g) || []).map((p) => p.slice(1, -1))
+
+/**
+ * Built-in rules
+ */
+export const lintRules: LintRule[] = [
+  {
+    name: 'operation-description',
+    severity: 'warn',
+    description: 'operations have a description',
+    check: ({ operation }) =>
+      operation.description ? [] : ['operation has no description'],
+  },
+  {
+    name: 'operation-tags',
+    severity: 'warn',
+    description: 'operations have at least one tag',
+    check: ({ operation }) =>
+      operation.tags?.length ? [] : ['operation has no tags'],
+  },
+  {
+    name: 'success-response',
+    severity: 'error',
+    description: 'operations document a 2xx response',
+    check: ({ operation }) =>
+      Object.keys(operation.responses || {}).some((c) =>
+        /^2(\d\d|XX)$/i.test(c)
+      )
+        ? []
+        : ['operation documents no 2xx response'],
+  },
+  {
+    name: 'unique-operation-id',
+    severity: 'error',
+    description: 'operationIds are unique',
+    check: (op, { operations }) => {
+      const id = op.operation.operationId
+      const first = operations.find((o) => o.operation.operationId === id)
+      return id && first !== op
+        ? [`operationId '${id}' is already used by ${operationKey(first)}`]
+        : []
+    },
+  },
+  {
+    name: 'path-params',
+    severity: 'error',
+    description: 'path template parameters and PathParams match',
+    check: ({ path, operation }) => {
+      const params = (operation.parameters || []).filter((p) => p.in === 'path')
+      const declared = params.map((p) => p.name)
+      const template = templateParams(path)
+      return [
+        ...template
+          .filter((p) => !declared.includes(p))
+          .map((p) => `path parameter '${p}' has no PathParam`),
+        ...declared
+          .filter((p) => !template.includes(p))
+          .map((p) => `PathParam '${p}' is not in the path`),
+        ...params
+          .filter((p) => template.includes(p.name) && !p.required)
+          .map((p) => `PathParam '${p.name}' is not required`),
+      ]
+    },
+  },
+  {
+    name: 'no-duplicate-operation',
+    severity: 'error',
+    description: 'operations are defined once',
+    check: (op, { paths }) =>
+      duplicateOperations(paths).includes(operationKey(op))
+        ? ['operation is defined more than once']
+        : [],
+  },
+]
+
+/**
+ * lint
+ *
+ * Check the operations returned by {@link Paths}, or an {@link App}
+ * document, against the built-in and custom rules
+ *
+ * ```typescript
+ * const findings = lint(paths, {
+ *   rules: { 'operation-tags': 'off', 'operation-description': 'error' },
+ *   custom: [
+ *     {
+ *       name: 'operation-summary',
+ *       severity: 'warn',
+ *       check: ({ operation }) =>
+ *         operation.summary ? [] : ['operation has no summary'],
+ *     },
+ *   ],
+ * })
+ * if (findings.some((f) => f.severity === 'error')) {
+ *   process.exit(1)
+ * }
+ * ```
+ */
+export const lint = (
+  src: OpenAPI3.AppObject | OpenAPI3.PathItem,
+  opts: LintOptions = {}
+): LintFinding[] => {
+  const paths = (
+    typeof src.openapi === 'string' ? src.paths : src
+  ) as OpenAPI3.PathItem
+  const operations = Object.keys(paths).reduce((acc, path) => {
+    for (const method of HttpMethods.filter((m) => paths[path][m])) {
+      acc.push({ path, method, operation: paths[path][method] })
+    }
+    return acc
+  }, [] as LintOperation[])
+  const ctx = { paths, operations }
+  const rules = [...lintRules, ...(opts.custom || [])]
+  const findings: LintFinding[] = []
+  for (const op of operations) {
+    for (const rule of rules) {
+      const severity = opts.rules?.[rule.name] ?? rule.severity
+      if (severity === 'off') {
+        continue
+      }
+      for (const message of rule.check(op, ctx)) {
+        findings.push({
+          rule: rule.name,
+          severity,
+          operation: operationKey(op),
+          message,
+        })
+      }
+    }
+  }
+  return findings
+}
+
+/**
+ * lintReport
+ *
+ * Format findings one per line
+ */
+export const lintReport = (findings: LintFinding[]): string =>
+  findings
+    .map((f) => `${f.severity}\t${f.operation}\t${f.message}\t(${f.rule})`)
+    .join('\n')
@@ -0,0 +1,17 @@
+import * as OpenAPI3 from '../types/open-api-3'
+
+/**
+ * HttpMethods
+ *
+ * OpenAPI3 operation methods, in `Allow` header order
+ */
+export const HttpMethods: OpenAPI3.HttpMethod[] = [
+  'get',
+  'head',
+  'post',
+  'put',
+  'patch',
+  'delete',
+  'options',
+  'trace',
+]
@@ -0,0 +1,241 @@
+import { Request, Response, RequestHandler } from 'express'
+import Ajv from 'ajv'
+import * as OpenAPI3 from '../types/open-api-3'
+
+export interface MockOptions {
+  /** seed of the generated data, the same seed gives the same responses */
+  seed?: number
+}
+
+// nesting depth past which optional data is left out
+const maxDepth = 6
+
+const words = [
+  'lorem',
+  'ipsum',
+  'dolor',
+  'sit',
+  'amet',
+  'consectetur',
+  'adipiscing',
+  'elit',
+  'sed',
+  'do',
+  'eiusmod',
+  'tempor',
+]
+
+type Random = () => number
+
+// mulberry32
+export const random = (seed: number): Random => {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export const hash = (s: string) =>
+  [...s].reduce((h, c) => Math.imul(h ^ c.charCodeAt(0), 16777619), 2166136261)
+
+export const between = (rnd: Random, min: number, max: number) =>
+  min + Math.floor(rnd() * (max - min + 1))
+
+export const pick = <T>(rnd: Random, items: readonly T[]): T =>
+  items[Math.floor(rnd() * items.length)]
+
+const hex = (rnd: Random, n: number) =>
+  Array.from({ length: n }, () => between(rnd, 0, 15).toString(16)).join('')
+
+const text = (rnd: Random, min: number, max: number) => {
+  const length = between(rnd, min, Math.max(min, max))
+  let out = ''
+  while (out.length < length) {
+    out += (out ? ' ' : '') + pick(rnd, words)
+  }
+  return out.slice(0, length).replace(/ $/, 'x')
+}
+
+const date = (rnd: Random) =>
+  new Date(
+    Date.UTC(2020, 0, 1) +
+      between(rnd, 0, 1000) * 86400000 +
+      between(rnd, 0, 86399) * 1000
+  )
+
+const formats: { [format: string]: (rnd: Random) => string } = {
+  'date-time': (rnd) => date(rnd).toISOString(),
+  date: (rnd) => date(rnd).toISOString().slice(0, 10),
+  time: (rnd) => `${date(rnd).toISOString().slice(11, 19)}Z`,
+  email: (rnd) => `${pick(rnd, words)}@example.com`,
+  hostname: (rnd) => `${pick(rnd, words)}.example.com`,
+  uri: (rnd) => `https://example.com/${pick(rnd, words)}`,
+  url: (rnd) => `https://example.com/${pick(rnd, words)}`,
+  uuid: (rnd) =>
+    `${hex(rnd, 8)}-${hex(rnd, 4)}-4${hex(rnd, 3)}-a${hex(rnd, 3)}-${hex(
+      rnd,
+      12
+    )}`,
+  ipv4: (rnd) =>
+    Array.from({ length: 4 }, () => between(rnd, 1, 254)).join('.'),
+  ipv6: (rnd) => Array.from({ length: 8 }, () => hex(rnd, 4)).join(':'),
+  byte: (rnd) => Buffer.from(text(rnd, 4, 12)).toString('base64'),
+}
+
+const numberValue = (rnd: Random, schema: OpenAPI3.ParamSchema) => {
+  const min = schema.minimum ?? Math.min(0, schema.maximum ?? 0)
+  const max = schema.maximum ?? Math.max(min, 0) + 100
+  if (schema.type === 'integer') {
+    return between(rnd, Math.ceil(min), Math.floor(max))
+  }
+  return Math.round((min + rnd() * (max - min)) * 100) / 100
+}
+
+/**
+ * mockData
+ *
+ * Synthesize a value matching a schema, preferring its
+ * `example`, `default` and `enum` values.
+ *
+ * `$ref`s are resolved through `resolve`
+ */
+export const mockData = (
+  schema: OpenAPI3.ParamSchema | undefined,
+  rnd: Random,
+  resolve: (ref: string) => OpenAPI3.ParamSchema | undefined,
+  depth = 0
+): unknown => {
+  if (!schema || typeof schema !== 'object') {
+    return null
+  }
+  if (schema.$ref) {
+    return mockData(resolve(schema.$ref), rnd, resolve, depth)
+  }
+  if (schema.example !== undefined) {
+    return schema.example
+  }
+  if (schema.default !== undefined) {
+    return schema.default
+  }
+  if (schema.enum?.length) {
+    return pick(rnd, schema.enum as readonly unknown[])
+  }
+  const union = schema.oneOf || schema.anyOf
+  if (union?.length) {
+    return mockData(pick(rnd, union), rnd, resolve, depth)
+  }
+  if (schema.allOf?.length) {
+    return schema.allOf.reduce<unknown>((acc, s) => {
+      const value = mockData(s, rnd, resolve, depth)
+      return acc &&
+        typeof acc === 'object' &&
+        value &&
+        typeof value === 'object'
+        ? { ...acc, ...value }
+        : value
+    }, undefined)
+  }
+  switch (schema.type) {
+    case 'string':
+      if (schema.format && formats[schema.format]) {
+        return formats[schema.format](rnd)
+      }
+      // default lengths give way to small declared maximums
+      return text(
+        rnd,
+        Math.min(schema.minLength ?? 4, schema.maxLength ?? Infinity),
+        schema.maxLength ?? 16
+      )
+    case 'integer':
+    case 'number':
+      return numberValue(rnd, schema)
+    case 'boolean':
+      return rnd() < 0.5
+    case 'array': {
+      const min = Math.min(
+        schema.minItems ?? (depth < maxDepth ? 1 : 0),
+        schema.maxItems ?? Infinity
+      )
+      const count = between(rnd, min, Math.max(min, schema.maxItems ?? min + 2))
+      return Array.from({ length: depth < maxDepth ? count : min }, () =>
+        mockData(schema.items, rnd, resolve, depth + 1)
+      )
+    }
+  }
+  if (schema.type === 'object' || schema.properties) {
+    const properties = schema.properties || {}
+    const required = schema.required || []
+    return Object.keys(properties)
+      .filter((k) => depth < maxDepth || required.includes(k))
+      .reduce((acc, k) => {
+        acc[k] = mockData(properties[k], rnd, resolve, depth + 1)
+        return acc
+      }, {} as Record<string, unknown>)
+  }
+  return null
+}
+
+// the lowest declared success status, then `default`
+const mockStatus = (responses: OpenAPI3.MediaSchemaItem) => {
+  const codes = Object.keys(responses)
+  const success = codes.filter((c) => /^2\d\d$/.test(c)).sort()[0]
+  if (success) {
+    return { code: success, status: Number(success) }
+  }
+  const range = codes.find((c) => /^2XX$/i.test(c))
+  if (range || codes.includes('default')) {
+    return { code: range || 'default', status: 200 }
+  }
+  return undefined
+}
+
+/**
+ * mockHandler
+ *
+ * Answer an operation with data synthesized from its
+ * success response schema in place of its `middleware`
+ */
+export const mockHandler = (
+  v: Ajv,
+  pathOp: OpenAPI3.PathOperation,
+  route: string,
+  opts: MockOptions = {}
+): RequestHandler => {
+  const resolve = (ref: string) =>
+    v.getSchema(ref)?.schema as OpenAPI3.ParamSchema | undefined
+  const seed = (opts.seed ?? 0) ^ hash(route)
+  return (_req: Request, res: Response) => {
+    const selected = mockStatus(pathOp.responses || {})
+    if (!selected) {
+      res.status(204).end()
+      return
+    }
+    const content = pathOp.responses[selected.code].content || {}
+    const types = Object.keys(content)
+    const mediaType = types.find((t) => /[/+]json$/i.test(t)) || types[0]
+    if (!mediaType || selected.status === 204) {
+      res.status(selected.status).end()
+      return
+    }
+    const media = content[mediaType] as OpenAPI3.ContentItem[string] & {
+      example?: unknown
+      examples?: { [name: string]: { value?: unknown } }
+    }
+    const [named] = Object.values(media.examples || {})
+    // every request for an operation gets the same data
+    const data =
+      media.example ??
+      named?.value ??
+      mockData(media.schema, random(seed), resolve)
+    res.status(selected.status).type(mediaType)
+    if (/[/+]json$/i.test(mediaType)) {
+      res.json(data)
+    } else {
+      res.send(typeof data === 'string' ? data : JSON.stringify(data))
+    }
+  }
+}
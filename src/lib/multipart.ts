@@ -0,0 +1,126 @@
+import { Request } from 'express'
+import * as OpenAPI3 from '../types/open-api-3'
+import { HttpError } from './errors'
+
+export interface Multipart {
+  fields: Record<string, string | string[]>
+  files: OpenAPI3.UploadedFiles
+}
+
+/**
+ * readBody
+ *
+ * Buffer a request body, failing with a 413 past `limit` bytes
+ */
+export const readBody = (req: Request, limit: number): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    let failed = false
+    req.on('data', (chunk: Buffer) => {
+      if (failed) {
+        return
+      }
+      size += chunk.length
+      if (size > limit) {
+        failed = true
+        reject(new HttpError(413, `request body exceeds ${limit} bytes`))
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on('end', () => {
+      if (!failed) {
+        resolve(Buffer.concat(chunks))
+      }
+    })
+    req.on('error', (err) => {
+      failed = true
+      reject(err)
+    })
+  })
+
+const headerParams = (value: string): Record<string, string> =>
+  value
+    .split(';')
+    .slice(1)
+    .reduce((acc, param) => {
+      const idx = param.indexOf('=')
+      if (idx > 0) {
+        const key = param.slice(0, idx).trim().toLowerCase()
+        acc[key] = param
+          .slice(idx + 1)
+          .trim()
+          .replace(/^"(.*)"$/, '$1')
+      }
+      return acc
+    }, {} as Record<string, string>)
+
+const partHeaders = (raw: string): Record<string, string> =>
+  raw.split('\r\n').reduce((acc, line) => {
+    const idx = line.indexOf(':')
+    if (idx > 0) {
+      acc[line.slice(0, idx).trim().toLowerCase()] = line.slice(idx + 1).trim()
+    }
+    return acc
+  }, {} as Record<string, string>)
+
+const malformed = () => new HttpError(400, 'malformed multipart body')
+
+/**
+ * parseMultipart
+ *
+ * Parse a buffered `multipart/form-data` body into text fields
+ * and files, repeated field names are collected into arrays
+ */
+export const parseMultipart = (
+  body: Buffer,
+  contentType: string
+): Multipart => {
+  const { boundary } = headerParams(contentType)
+  if (!boundary) {
+    throw malformed()
+  }
+  const delimiter = Buffer.from(`--${boundary}`)
+  const separator = Buffer.from(`\r\n--${boundary}`)
+  const out: Multipart = { fields: {}, files: {} }
+
+  let pos = body.indexOf(delimiter)
+  if (pos < 0) {
+    throw malformed()
+  }
+  pos += delimiter.length
+  while (body.toString('latin1', pos, pos + 2) !== '--') {
+    const headerEnd = body.indexOf('\r\n\r\n', pos)
+    const next = body.indexOf(separator, headerEnd + 4)
+    if (headerEnd < 0 || next < 0) {
+      throw malformed()
+    }
+    const headers = partHeaders(body.toString('utf8', pos + 2, headerEnd))
+    const data = body.subarray(headerEnd + 4, next)
+    const { name, filename } = headerParams(
+      headers['content-disposition'] || ''
+    )
+    if (name === undefined) {
+      throw malformed()
+    }
+    if (filename !== undefined) {
+      const file: OpenAPI3.UploadedFile = {
+        fieldname: name,
+        originalname: filename,
+        encoding: headers['content-transfer-encoding'] || '7bit',
+        mimetype: headers['content-type'] || 'application/octet-stream',
+        size: data.length,
+        buffer: data,
+      }
+      out.files[name] = [...(out.files[name] || []), file]
+    } else {
+      const value = data.toString('utf8')
+      const current = out.fields[name]
+      out.fields[name] =
+        current === undefined ? value : ([] as string[]).concat(current, value)
+    }
+    pos = next + separator.length
+  }
+  return out
+}
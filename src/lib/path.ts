@@ -0,0 +1,224 @@
+import * as OpenAPI3 from '../types/open-api-3'
+
+export interface ExpressParam {
+  /** wildcards are numbered like their `req.params` */
+  name: string
+  /** route constraint, e.g. `\d+` for `:id(\d+)` */
+  pattern?: string
+  optional: boolean
+}
+
+export interface OasPath {
+  /** OpenAPI 3 path template */
+  path: string
+  /** the operation's parameters with a required PathParam for each template */
+  parameters: OpenAPI3.Parameter[]
+}
+
+interface Segment {
+  /** literal text before the parameter */
+  text: string
+  /** `/` or `.` dropped along with an optional parameter */
+  prefix?: string
+  param?: ExpressParam
+}
+
+// express.js 4 (path-to-regexp 0.1) parameters, `/:name(regex)*?`
+const paramToken = /(\/)?(\.)?:(\w+)(?:\((.*?)\))?(\*)?(\?)?/g
+
+// regular expression syntax express.js passes through from literal text
+const unsupported = /[()[\]{}+?|^$\\]/
+
+const parse = (path: string): Segment[] => {
+  const fail = (reason: string) => {
+    throw new Error(`cannot document express.js path '${path}': ${reason}`)
+  }
+  const segments: Segment[] = []
+  let unnamed = 0
+  // `*` matches anything, numbered in `req.params` after the named groups
+  const literal = (text: string) => {
+    const syntax = text.match(unsupported)
+    if (syntax) {
+      fail(`unsupported '${syntax[0]}'`)
+    }
+    const parts = text.split('*')
+    for (const part of parts.slice(0, -1)) {
+      segments.push({
+        text: part,
+        param: { name: String(unnamed++), pattern: '.*', optional: false },
+      })
+    }
+    return parts[parts.length - 1]
+  }
+  let last = 0
+  for (const m of path.matchAll(paramToken)) {
+    const [token, slash, format, name, pattern, star, optional] = m
+    const text = literal(path.slice(last, m.index))
+    last = m.index + token.length
+    if (star) {
+      fail(`use ':${name}(*)' to match the rest of the path`)
+    }
+    if (pattern !== undefined && /[()]/.test(pattern)) {
+      fail(`groups in the ':${name}' constraint`)
+    }
+    unnamed += (pattern?.match(/\*/g) || []).length
+    segments.push({
+      text,
+      prefix: `${slash || ''}${format || ''}`,
+      param: {
+        name,
+        ...(pattern !== undefined
+          ? { pattern: pattern.replace(/\*/g, '(.*)') }
+          : {}),
+        optional: !!optional,
+      },
+    })
+  }
+  segments.push({ text: literal(path.slice(last)) })
+  return segments
+}
+
+const params = (segments: Segment[]): ExpressParam[] =>
+  segments.filter((s) => s.param).map((s) => s.param)
+
+/**
+ * expressParams
+ *
+ * Named parameters and wildcards of an express.js path
+ */
+export const expressParams = (path: string): ExpressParam[] =>
+  params(parse(path))
+
+// JSON schema patterns are unanchored, express.js constraints are anchored
+const anchored = (pattern: string) =>
+  pattern.replace(/^\^/, '').replace(/(^|[^\\])\$$/, '$1')
+
+const reconcile = (
+  path: string,
+  route: ExpressParam[],
+  parameters: OpenAPI3.Parameter[]
+): OpenAPI3.Parameter[] => {
+  const problems: string[] = []
+  const out = parameters.map((p) => {
+    if (p.in !== 'path') {
+      return p
+    }
+    const param = route.find((r) => r.name === p.name)
+    if (!param) {
+      problems.push(`PathParam '${p.name}' is not in path '${path}'`)
+      return p
+    }
+    const pattern = p.schema?.pattern
+    if (
+      param.pattern !== undefined &&
+      pattern !== undefined &&
+      anchored(pattern) !== param.pattern
+    ) {
+      problems.push(
+        `PathParam '${p.name}' pattern '${pattern}' does not match route constraint '${param.pattern}' in '${path}'`
+      )
+    }
+    const derived =
+      param.pattern !== undefined &&
+      pattern === undefined &&
+      (p.schema?.type ?? 'string') === 'string'
+    return p.required && !derived
+      ? p
+      : {
+          ...p,
+          required: true,
+          ...(derived
+            ? { schema: { ...p.schema, pattern: `^${param.pattern}$` } }
+            : {}),
+        }
+  })
+  if (problems.length) {
+    throw new Error(`path parameter mismatch: ${problems.join(', ')}`)
+  }
+  for (const r of route.filter((r) => !r.optional)) {
+    if (!out.some((p) => p.in === 'path' && p.name === r.name)) {
+      out.push({
+        in: 'path',
+        name: r.name,
+        required: true,
+        schema: {
+          type: 'string',
+          ...(r.pattern !== undefined ? { pattern: `^${r.pattern}$` } : {}),
+        },
+      })
+    }
+  }
+  return out
+}
+
+/**
+ * pathParameters
+ *
+ * Reconcile the `PathParam`s of an operation with its express.js path.
+ *
+ * Path parameters without a `PathParam` get one, with the route constraint
+ * as its `pattern`, and every path parameter is marked `required`.
+ * A `PathParam` missing from the path or whose `pattern` differs from the
+ * route constraint throws
+ */
+export const pathParameters = (
+  path: string,
+  parameters: OpenAPI3.Parameter[] = []
+): OpenAPI3.Parameter[] => reconcile(path, expressParams(path), parameters)
+
+/**
+ * oasPaths
+ *
+ * Convert an express.js path to OpenAPI 3 path templates
+ *
+ * Optional parameters expand to a path with and one without them,
+ * wildcards become parameters named by their `req.params` index.
+ * Syntax without an OpenAPI 3 equivalent throws
+ *
+ * ```typescript
+ * oasPaths('/files/:id(\\d+)/:format?/*')
+ * // [
+ * //   { path: '/files/{id}/{0}', parameters: [...] },
+ * //   { path: '/files/{id}/{format}/{0}', parameters: [...] },
+ * // ]
+ * ```
+ */
+export const oasPaths = (
+  path: string,
+  parameters: OpenAPI3.Parameter[] = []
+): OasPath[] => {
+  const segments = parse(path)
+  const names = params(segments).map((p) => p.name)
+  const variants = segments.reduce(
+    (acc, s) =>
+      acc.flatMap((v) =>
+        s.param?.optional
+          ? [
+              [...v, { text: s.text }],
+              [...v, { ...s, param: { ...s.param, optional: false } }],
+            ]
+          : [[...v, s]]
+      ),
+    [[]] as Segment[][]
+  )
+  return variants.map((variant) => {
+    const route = params(variant)
+    // PathParams of optional parameters left out of this path are dropped
+    const declared = parameters.filter(
+      (p) =>
+        p.in !== 'path' ||
+        !names.includes(p.name) ||
+        route.some((r) => r.name === p.name)
+    )
+    return {
+      path:
+        variant
+          .map(
+            (s) =>
+              `${s.text}${s.param ? `${s.prefix || ''}{${s.param.name}}` : ''}`
+          )
+          .join('') || '/',
+      parameters: reconcile(path, route, declared),
+    }
+  })
+}
@@ -0,0 +1,147 @@
+import { STATUS_CODES } from 'http'
+import { Request, Response, NextFunction } from 'express'
+import { ErrorObject } from 'ajv'
+import * as OpenAPI3 from '../types/open-api-3'
+import { AejoError, HttpError, ValidationError } from './errors'
+import { SchemaComponent } from './components'
+
+export interface ProblemError {
+  in: string
+  pointer: string
+  message: string
+}
+
+export interface Problem {
+  type: string
+  title: string
+  status: number
+  detail?: string
+  instance?: string
+  errors?: ProblemError[]
+}
+
+/**
+ * ProblemSchema
+ *
+ * Shared RFC 7807 Problem Details schema
+ */
+export const ProblemSchema = SchemaComponent('ProblemDetails', {
+  type: 'object',
+  properties: {
+    type: { type: 'string' },
+    title: { type: 'string' },
+    status: { type: 'integer' },
+    detail: { type: 'string' },
+    instance: { type: 'string' },
+    errors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          in: { type: 'string' },
+          pointer: { type: 'string' },
+          message: { type: 'string' },
+        },
+        required: ['in', 'pointer', 'message'],
+      },
+    },
+  },
+  required: ['type', 'title', 'status'],
+})
+
+/**
+ * ProblemResponse
+ *
+ * Documented 400 response for validated operations
+ */
+export const ProblemResponse: OpenAPI3.MediaSchema = {
+  description: 'Validation error',
+  content: {
+    'application/problem+json': {
+      schema: ProblemSchema,
+    },
+  },
+}
+
+const escapePointer = (s: string) => s.replace(/~/g, '~0').replace(/\//g, '~1')
+
+// AJV reports missing and additional properties against the parent object
+const errorPointer = (e: Partial<ErrorObject>): string => {
+  const base = e.instancePath || ''
+  const params = (e.params || {}) as Record<string, unknown>
+  const prop = params.missingProperty ?? params.additionalProperty
+  return typeof prop === 'string' ? `${base}/${escapePointer(prop)}` : base
+}
+
+const problemErrors = (location: string, errors: unknown): ProblemError[] =>
+  Array.isArray(errors)
+    ? errors.map((e: Partial<ErrorObject>) => {
+        const pointer = errorPointer(e)
+        const name = pointer.split('/').slice(1).join('.')
+        return {
+          in: location,
+          pointer,
+          message: [name, e.message].filter(Boolean).join(' '),
+        }
+      })
+    : []
+
+/**
+ * problemDetails
+ *
+ * Render an `AejoError` as an RFC 7807 Problem Details object
+ */
+export const problemDetails = (err: AejoError, instance?: string): Problem => {
+  if (err instanceof ValidationError && err.location !== 'response') {
+    const errors = problemErrors(err.location || 'body', err.context)
+    return {
+      type: 'about:blank',
+      title: 'Bad Request',
+      status: 400,
+      detail: errors.map((e) => e.message).join(', ') || err.message,
+      instance,
+      errors,
+    }
+  }
+  const status = err instanceof HttpError ? err.status : 500
+  const problem: Problem = {
+    type: 'about:blank',
+    title: STATUS_CODES[status] || 'Error',
+    status,
+    detail: err.message,
+    instance,
+  }
+  if (err instanceof ValidationError) {
+    const { errors } = (err.context || {}) as { errors?: unknown }
+    problem.errors = problemErrors('response', errors)
+  }
+  return problem
+}
+
+/**
+ * ProblemHandler
+ *
+ * Express error middleware rendering `AejoError`s as
+ * `application/problem+json`, other errors are passed along
+ *
+ * ```typescript
+ * app.use('/api/users', usersRouter)
+ * app.use(ProblemHandler)
+ * ```
+ */
+export const ProblemHandler = (
+  err: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!(err instanceof AejoError) || res.headersSent) {
+    next(err)
+    return
+  }
+  const problem = problemDetails(err, req.originalUrl)
+  res
+    .status(problem.status)
+    .type('application/problem+json')
+    .send(JSON.stringify(problem))
+}
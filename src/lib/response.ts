@@ -0,0 +1,162 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express'
+import Ajv, { ValidateFunction } from 'ajv'
+import * as OpenAPI3 from '../types/open-api-3'
+import { ValidationError } from './errors'
+
+type ResponseValidators = {
+  [code: string]: { [content: string]: ValidateFunction }
+}
+
+/**
+ * findResponse
+ *
+ * Resolve the declared response for a status code,
+ * falling back to `4XX` style ranges and `default`
+ */
+export const findResponse = <T>(
+  responses: { [code: string]: T },
+  status: number
+): T | undefined =>
+  responses[String(status)] ??
+  responses[`${String(status)[0]}XX`] ??
+  responses.default
+
+/**
+ * findContent
+ *
+ * Resolve a declared media type, honouring `type/*` and `*\/*` ranges
+ */
+export const findContent = <T>(
+  content: { [content: string]: T },
+  mediaType: string
+): T | undefined => {
+  const [type] = mediaType.split('/')
+  return content[mediaType] ?? content[`${type}/*`] ?? content['*/*']
+}
+
+const mediaTypeOf = (res: Response, fallback: string): string =>
+  (res.get('Content-Type') || fallback).split(';')[0].trim().toLowerCase()
+
+const compileResponses = (
+  v: Ajv,
+  responses: OpenAPI3.MediaSchemaItem
+): ResponseValidators =>
+  Object.keys(responses).reduce<ResponseValidators>((acc, code) => {
+    const content = responses[code].content || {}
+    acc[code] = Object.keys(content).reduce((media, type) => {
+      media[type.toLowerCase()] = v.compile(content[type].schema)
+      return media
+    }, {} as { [content: string]: ValidateFunction })
+    return acc
+  }, {})
+
+const responseMode = (
+  opt: OpenAPI3.ResponseValidationMode | OpenAPI3.ResponseValidation
+): OpenAPI3.ResponseValidation =>
+  typeof opt === 'string' ? { mode: opt } : opt
+
+const reportError = (err: ValidationError) => {
+  console.warn(`${err.message}: ${JSON.stringify(err.context)}`)
+}
+
+/**
+ * responseValidator
+ *
+ * Builds middleware that wraps `res.json` and `res.send`, validating
+ * the payload against the declared `responses` schema for the
+ * status code and content type
+ *
+ * Each response is checked once; the original methods are
+ * restored before the payload is validated
+ */
+export const responseValidator = (
+  v: Ajv,
+  pathOp: OpenAPI3.PathOperation
+): RequestHandler | undefined => {
+  if (!pathOp.validateResponses) {
+    return undefined
+  }
+  const { mode, report = reportError } = responseMode(pathOp.validateResponses)
+  const validators = compileResponses(v, pathOp.responses || {})
+
+  const check = (res: Response, mediaType: string, body: unknown) => {
+    const status = res.statusCode
+    const byType = findResponse(validators, status)
+    let errors: unknown = undefined
+    if (!byType) {
+      errors = [{ message: `undeclared status code ${status}` }]
+    } else if (Object.keys(byType).length === 0) {
+      if (body !== undefined && body !== '') {
+        errors = [{ message: `unexpected body for status code ${status}` }]
+      }
+    } else {
+      const valid = findContent(byType, mediaType)
+      if (!valid) {
+        errors = [{ message: `undeclared content type '${mediaType}'` }]
+      } else if (!valid(body)) {
+        errors = valid.errors
+      }
+    }
+    if (!errors) {
+      return
+    }
+    const err = new ValidationError(
+      'AejoResponseValidationError',
+      {
+        status,
+        contentType: mediaType,
+        errors,
+      },
+      'response'
+    )
+    if (mode === 'throw') {
+      throw err
+    }
+    return err
+  }
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const json = res.json
+    const send = res.send
+    const restore = () => {
+      res.json = json
+      res.send = send
+    }
+
+    res.json = function (body?: unknown) {
+      restore()
+      const err = check(res, mediaTypeOf(res, 'application/json'), body)
+      if (err) {
+        report(err, req)
+      }
+      return json.call(this, body)
+    }
+
+    res.send = function (body?: unknown) {
+      // objects are handed over to `res.json` by express.js
+      if (body !== null && typeof body === 'object' && !Buffer.isBuffer(body)) {
+        return res.json(body)
+      }
+      restore()
+      const mediaType = mediaTypeOf(
+        res,
+        typeof body === 'string' ? 'text/html' : 'application/octet-stream'
+      )
+      let payload: unknown = Buffer.isBuffer(body) ? body.toString() : body
+      if (typeof payload === 'string' && /[/+]json$/.test(mediaType)) {
+        try {
+          payload = JSON.parse(payload)
+        } catch (e) {
+          // leave unparsable payloads to fail the schema
+        }
+      }
+      const err = check(res, mediaType, payload)
+      if (err) {
+        report(err, req)
+      }
+      return send.call(this, body)
+    }
+
+    next()
+  }
+}
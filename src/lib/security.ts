@@ -0,0 +1,438 @@
+import { createHmac, createVerify, KeyObject, timingSafeEqual } from 'crypto'
+import { NextFunction, Request, RequestHandler, Response } from 'express'
+import * as OpenAPI3 from '../types/open-api-3'
+import { HttpError } from './errors'
+import { ProblemSchema } from './problem'
+import { parseCookies } from './cookies'
+
+export interface Security<S = string> {
+  name: string
+  scheme?: OpenAPI3.SecuritySchemeObject
+  before?: RequestHandler
+  handler: RequestHandler
+  scopes: OpenAPI3.NamedHandler<S>
+  responses: OpenAPI3.MediaSchemaItem
+  /** grants requests to a `Scope` naming no scopes, which are denied otherwise */
+  authenticated?: OpenAPI3.ScopeHandler
+}
+
+/** whether a verified principal has a scope */
+export type ScopeRule<P> = (
+  principal: P,
+  req: Request
+) => boolean | Promise<boolean>
+
+export type ScopeRules<S extends string, P> = Record<S, ScopeRule<P>>
+
+// principals verified by the built-in securities, by security name
+const principals = new WeakMap<Request, Record<string, unknown>>()
+
+/**
+ * principal
+ *
+ * The principal a built-in security verified for the request
+ *
+ * ```typescript
+ * const claims = principal<JwtClaims>(req, 'bearer')
+ * ```
+ */
+export const principal = <P = unknown>(
+  req: Request,
+  name: string
+): P | undefined => principals.get(req)?.[name] as P | undefined
+
+const problemContent = {
+  'application/problem+json': {
+    schema: ProblemSchema,
+  },
+}
+
+const authResponses: OpenAPI3.MediaSchemaItem = {
+  '401': { description: 'Unauthorized', content: problemContent },
+  '403': { description: 'Forbidden', content: problemContent },
+}
+
+// resolves to the principal for valid credentials
+type Verify<P> = (
+  credentials: string,
+  req: Request
+) => P | undefined | Promise<P | undefined>
+
+/*
+ * `before` verifies the credentials `read` finds, denied requests get a 401
+ * without a verified principal and a 403 with one
+ */
+const verified = <S extends string, P>({
+  name,
+  scheme,
+  challenge,
+  read,
+  verify,
+  scopes = {} as ScopeRules<S, P>,
+}: {
+  name: string
+  scheme: OpenAPI3.SecuritySchemeObject
+  /** `WWW-Authenticate` challenge sent with 401s */
+  challenge?: string
+  read: (req: Request) => string | undefined
+  verify: Verify<P>
+  scopes?: ScopeRules<S, P>
+}): Security<S> => ({
+  name,
+  scheme,
+  before: (req: Request, _res: Response, next: NextFunction) => {
+    const credentials = read(req)
+    if (!credentials) {
+      next()
+      return
+    }
+    Promise.resolve(verify(credentials, req)).then((p) => {
+      if (p !== undefined) {
+        principals.set(req, { ...principals.get(req), [name]: p })
+      }
+      next()
+    }, next)
+  },
+  handler: (req: Request, res: Response, next: NextFunction) => {
+    if (principal(req, name) !== undefined) {
+      next(new HttpError(403, `insufficient scope for '${name}'`))
+      return
+    }
+    if (challenge) {
+      res.set('WWW-Authenticate', challenge)
+    }
+    next(new HttpError(401, `missing or invalid '${name}' credentials`))
+  },
+  scopes: (Object.keys(scopes) as S[]).reduce((acc, s) => {
+    acc[s] = async (req: Request) => {
+      const p = principal<P>(req, name)
+      return p !== undefined && scopes[s](p, req)
+    }
+    return acc
+  }, {} as Record<string, OpenAPI3.ScopeHandler>) as OpenAPI3.NamedHandler<S>,
+  responses: authResponses,
+  authenticated: (req: Request) => principal(req, name) !== undefined,
+})
+
+export interface ApiKeyOptions<S extends string, P> {
+  name: string
+  in: 'header' | 'query' | 'cookie'
+  /** header, query parameter or cookie holding the key */
+  key: string
+  /** principal for a valid key, `undefined` otherwise */
+  verify: (key: string, req: Request) => P | undefined | Promise<P | undefined>
+  scopes?: ScopeRules<S, P>
+}
+
+/**
+ * ApiKeySecurity
+ *
+ * API key read from a header, query parameter or cookie
+ *
+ * ```typescript
+ * const apiKey = ApiKeySecurity({
+ *   name: 'apiKey',
+ *   in: 'header',
+ *   key: 'X-Api-Key',
+ *   verify: (key) => clients.get(key),
+ *   scopes: { admin: (client) => client.admin },
+ * })
+ * const ClientAuth = AuthPathOp(Scope(apiKey))
+ * ```
+ */
+export const ApiKeySecurity = <S extends string = string, P = unknown>(
+  opts: ApiKeyOptions<S, P>
+): Security<S> =>
+  verified({
+    name: opts.name,
+    scheme: { type: 'apiKey', in: opts.in, name: opts.key },
+    read: (req) => {
+      if (opts.in === 'header') {
+        return req.get(opts.key)
+      }
+      const values =
+        opts.in === 'query'
+          ? req.query
+          : req.cookies ?? parseCookies(req.headers.cookie)
+      const value = values[opts.key]
+      return typeof value === 'string' ? value : undefined
+    },
+    verify: opts.verify,
+    scopes: opts.scopes,
+  })
+
+export interface BasicOptions<S extends string, P> {
+  name: string
+  /** realm of the `WWW-Authenticate` challenge, defaults to the name */
+  realm?: string
+  /** principal for valid credentials, `undefined` otherwise */
+  verify: (
+    username: string,
+    password: string,
+    req: Request
+  ) => P | undefined | Promise<P | undefined>
+  scopes?: ScopeRules<S, P>
+}
+
+/**
+ * BasicSecurity
+ *
+ * HTTP basic authentication
+ *
+ * ```typescript
+ * const basic = BasicSecurity({
+ *   name: 'basic',
+ *   verify: async (username, password) =>
+ *     (await users.check(username, password)) ? { username } : undefined,
+ * })
+ * ```
+ */
+export const BasicSecurity = <S extends string = string, P = unknown>(
+  opts: BasicOptions<S, P>
+): Security<S> =>
+  verified({
+    name: opts.name,
+    scheme: { type: 'http', scheme: 'basic' },
+    challenge: `Basic realm="${opts.realm ?? opts.name}"`,
+    read: (req) => /^Basic\s+(\S+)$/i.exec(req.get('Authorization') || '')?.[1],
+    verify: (credentials, req) => {
+      const decoded = Buffer.from(credentials, 'base64').toString('utf8')
+      const idx = decoded.indexOf(':')
+      return idx < 0
+        ? undefined
+        : opts.verify(decoded.slice(0, idx), decoded.slice(idx + 1), req)
+    },
+    scopes: opts.scopes,
+  })
+
+export interface JwtClaims {
+  iss?: string
+  sub?: string
+  aud?: string | string[]
+  exp?: number
+  nbf?: number
+  iat?: number
+  /** space separated OAuth2 scopes */
+  scope?: string
+  [claim: string]: unknown
+}
+
+export interface JwtVerifyOptions {
+  algorithm: 'HS256' | 'RS256'
+  /** HS256 shared secret or RS256 public key */
+  key: string | Buffer | KeyObject
+  /** required `iss` claim */
+  issuer?: string
+  /** required `aud` claim */
+  audience?: string
+  /** seconds of clock skew allowed for `exp` and `nbf`, defaults to 0 */
+  clockTolerance?: number
+}
+
+export interface JwtOptions<S extends string> extends JwtVerifyOptions {
+  name: string
+  scopes?: ScopeRules<S, JwtClaims>
+}
+
+const decodeJson = (part: string): Record<string, unknown> | undefined => {
+  try {
+    const value = JSON.parse(Buffer.from(part, 'base64url').toString('utf8'))
+    return value && typeof value === 'object' ? value : undefined
+  } catch (e) {
+    return undefined
+  }
+}
+
+const validSignature = (
+  data: string,
+  signature: Buffer,
+  opts: JwtVerifyOptions
+): boolean => {
+  if (opts.algorithm === 'RS256') {
+    return createVerify('RSA-SHA256').update(data).verify(opts.key, signature)
+  }
+  const expected = createHmac('sha256', opts.key).update(data).digest()
+  return (
+    expected.length === signature.length && timingSafeEqual(expected, signature)
+  )
+}
+
+/**
+ * verifyJwt
+ *
+ * Claims of a compact JWS signed with the configured algorithm,
+ * `undefined` for malformed, forged, expired or misaddressed tokens
+ */
+export const verifyJwt = (
+  token: string,
+  opts: JwtVerifyOptions,
+  now = Date.now()
+): JwtClaims | undefined => {
+  const parts = token.split('.')
+  if (parts.length !== 3) {
+    return undefined
+  }
+  const [header, payload, signature] = parts
+  // the algorithm is configured, never taken from the token
+  if (decodeJson(header)?.alg !== opts.algorithm) {
+    return undefined
+  }
+  const claims = decodeJson(payload) as JwtClaims | undefined
+  if (
+    !claims ||
+    !validSignature(
+      `${header}.${payload}`,
+      Buffer.from(signature, 'base64url'),
+      opts
+    )
+  ) {
+    return undefined
+  }
+  const seconds = now / 1000
+  const tolerance = opts.clockTolerance ?? 0
+  if (typeof claims.exp === 'number' && seconds > claims.exp + tolerance) {
+    return undefined
+  }
+  if (typeof claims.nbf === 'number' && seconds < claims.nbf - tolerance) {
+    return undefined
+  }
+  if (opts.issuer !== undefined && claims.iss !== opts.issuer) {
+    return undefined
+  }
+  if (
+    opts.audience !== undefined &&
+    !(Array.isArray(claims.aud) ? claims.aud : [claims.aud]).includes(
+      opts.audience
+    )
+  ) {
+    return undefined
+  }
+  return claims
+}
+
+/**
+ * claimScope
+ *
+ * Scope rule granting tokens listing `scope` in their `scope` claim
+ */
+export const claimScope =
+  (scope: string): ScopeRule<JwtClaims> =>
+  (claims) =>
+    typeof claims.scope === 'string' && claims.scope.split(' ').includes(scope)
+
+/**
+ * JwtSecurity
+ *
+ * Bearer JWT verified with HS256 or RS256, scopes are
+ * checked against the verified claims
+ *
+ * ```typescript
+ * const bearer = JwtSecurity({
+ *   name: 'bearer',
+ *   algorithm: 'RS256',
+ *   key: publicKey,
+ *   issuer: 'https://auth.example.com',
+ *   scopes: {
+ *     admin: (claims) => claims.role === 'admin',
+ *     'users:read': claimScope('users:read'),
+ *   },
+ * })
+ * const AdminAuth = AuthPathOp(Scope(bearer, 'admin'))
+ * ```
+ */
+export const JwtSecurity = <S extends string = string>(
+  opts: JwtOptions<S>
+): Security<S> =>
+  verified({
+    name: opts.name,
+    scheme: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+    challenge: `Bearer realm="${opts.name}"`,
+    read: (req) =>
+      /^Bearer\s+(\S+)$/i.exec(req.get('Authorization') || '')?.[1],
+    verify: (token) => verifyJwt(token, opts),
+    scopes: opts.scopes,
+  })
+
+export interface OAuth2Flow<S extends string> {
+  authorizationUrl?: string
+  tokenUrl?: string
+  refreshUrl?: string
+  /** scope names and their descriptions */
+  scopes: Record<S, string>
+}
+
+export interface OAuth2Flows<S extends string> {
+  implicit?: OAuth2Flow<S>
+  password?: OAuth2Flow<S>
+  clientCredentials?: OAuth2Flow<S>
+  authorizationCode?: OAuth2Flow<S>
+}
+
+export interface OAuth2Options<S extends string>
+  extends Partial<JwtVerifyOptions> {
+  name: string
+  description?: string
+  flows: OAuth2Flows<S>
+  /** claims of a valid access token, JWTs checked with `verifyJwt` by default */
+  verify?: (
+    token: string,
+    req: Request
+  ) => JwtClaims | undefined | Promise<JwtClaims | undefined>
+}
+
+/**
+ * OAuth2Security
+ *
+ * Bearer access tokens for OAuth2 flows. The flows and their scope
+ * descriptions are documented, each scope is granted by the token's
+ * `scope` claim and `Scope` rejects scopes no flow defines
+ *
+ * ```typescript
+ * const oauth = OAuth2Security({
+ *   name: 'oauth',
+ *   algorithm: 'RS256',
+ *   key: publicKey,
+ *   flows: {
+ *     authorizationCode: {
+ *       authorizationUrl: 'https://auth.example.com/authorize',
+ *       tokenUrl: 'https://auth.example.com/token',
+ *       scopes: {
+ *         'users:read': 'Read users',
+ *         'users:write': 'Modify users',
+ *       },
+ *     },
+ *   },
+ * })
+ * const ReadUsers = AuthPathOp(Scope(oauth, 'users:read'))
+ * ```
+ */
+export const OAuth2Security = <S extends string = string>(
+  opts: OAuth2Options<S>
+): Security<S> => {
+  const { name, description, flows, verify, ...jwt } = opts
+  const scopes = (Object.values(flows) as OAuth2Flow<S>[]).reduce(
+    (acc, flow) => {
+      for (const scope of Object.keys(flow.scopes) as S[]) {
+        acc[scope] = claimScope(scope)
+      }
+      return acc
+    },
+    {} as ScopeRules<S, JwtClaims>
+  )
+  if (!verify && !jwt.algorithm) {
+    throw new Error(`OAuth2 security '${name}' needs verify or an algorithm`)
+  }
+  return verified({
+    name,
+    scheme: {
+      type: 'oauth2',
+      ...(description ? { description } : {}),
+      flows,
+    },
+    challenge: `Bearer realm="${name}"`,
+    read: (req) =>
+      /^Bearer\s+(\S+)$/i.exec(req.get('Authorization') || '')?.[1],
+    verify: verify ?? ((token) => verifyJwt(token, jwt as JwtVerifyOptions)),
+    scopes,
+  })
+}
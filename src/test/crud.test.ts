@@ -8,8 +8,11 @@ import express, {
   Router,
 } from 'express'
 import {
+  App,
   QueryParam,
   PathParam,
+  HeaderParam,
+  CookieParam,
   Get,
   Post,
   Path,
@@ -20,11 +23,46 @@ import {
   AsyncGet,
   AsyncPost,
   Scope,
+  claimScope,
+  JwtSecurity,
+  OAuth2Security,
+  verifyJwt,
+  AllScopes,
+  AnyScope,
+  ApiKeySecurity,
   AuthPathOp,
+  BasicSecurity,
   Security,
+  ValidateResponses,
+  ValidationError,
+  HttpError,
+  SchemaComponent,
+  Operation,
+  ProblemHandler,
+  createAjv,
+  Delete,
+  Patch,
+  AsyncPatch,
+  SpecRoute,
+  Put,
+  generateClient,
+  Contract,
+  Fuzz,
+  lint,
+  lintReport,
+  diffSpecs,
+  diffReport,
 } from '../lib/'
-import { ScopeHandler } from '../types/open-api-3'
+import {
+  ParamSchema,
+  PathObject,
+  ScopeHandler,
+  SpecDocument,
+  UploadedFiles,
+} from '../types/open-api-3'
 import request from 'supertest'
+import { transformSync } from '@babel/core'
+import { createHmac, createSign, generateKeyPairSync } from 'crypto'
 
 interface UserAuth extends Request {
   user?: {
@@ -37,6 +75,22 @@ const UserLevel =
   (req: UserAuth): boolean =>
     (req.user?.level ?? 0) > minLevel
 
+// compact JWS for the security tests
+const signJwt = (
+  claims: Record<string, unknown>,
+  key: string,
+  alg = 'HS256'
+) => {
+  const encode = (v: unknown) =>
+    Buffer.from(JSON.stringify(v)).toString('base64url')
+  const data = `${encode({ alg, typ: 'JWT' })}.${encode(claims)}`
+  const signature =
+    alg === 'RS256'
+      ? createSign('RSA-SHA256').update(data).sign(key)
+      : createHmac('sha256', key).update(data).digest()
+  return `${data}.${signature.toString('base64url')}`
+}
+
 const routeHandler = (_req: Request, _res: Response, _next: NextFunction) => {}
 
 const UserRequest = (app: Express, level: number) => {
@@ -103,7 +157,6 @@ test('Path', () => {
 })
 
 test('Duplicate Paths', () => {
-  const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation()
   const app = express()
   const duplicateController = Controller({
     prefix: '/api/logs',
@@ -123,10 +176,209 @@ test('Duplicate Paths', () => {
         )
       ),
   })
-  Paths(app, duplicateController, duplicateController)
-  expect(consoleWarnSpy).toHaveBeenCalledWith(
-    "possible duplicate API definition 'get /api/logs/foo/bar'"
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+  const paths = Paths(app, duplicateController, duplicateController)
+  expect(warn).toHaveBeenCalledWith(
+    "duplicate API definition 'GET /api/logs/foo/bar'"
+  )
+  warn.mockRestore()
+  expect(
+    lint(paths).filter((f) => f.rule === 'no-duplicate-operation')
+  ).toEqual([
+    {
+      rule: 'no-duplicate-operation',
+      severity: 'error',
+      operation: 'GET /api/logs/foo/bar',
+      message: 'operation is defined more than once',
+    },
+  ])
+})
+
+test('Path Merging', () => {
+  const users = (path: string, ...ops: PathObject[]) =>
+    Controller({
+      prefix: '/api/users',
+      route: (router: Router): AppRoute => Route(router, Path(path, ...ops)),
+    })
+  const list = users('/', Get({ middleware: [routeHandler] }))
+  const create = users('/', Post({ middleware: [routeHandler] }))
+  const get = users('/:id', Get({ middleware: [routeHandler] }))
+  const update = users('/:userId', Put({ middleware: [routeHandler] }))
+  const fetch = users('/:userId', Get({ middleware: [routeHandler] }))
+
+  // methods on the same path from different controllers are merged
+  const merged = Paths(express(), { duplicates: 'throw' }, list, create, get)
+  expect(Object.keys(merged['/api/users/'])).toEqual(['get', 'post'])
+
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+  const paths = Paths(express(), list, get, update, fetch)
+  expect(warn.mock.calls.map(([message]) => message)).toEqual([
+    "API path '/api/users/{userId}' differs from '/api/users/{id}' only in parameter names",
+    "duplicate API definition 'GET /api/users/{userId}', defined as 'GET /api/users/{id}'",
+  ])
+  warn.mockRestore()
+  expect(
+    lint(paths)
+      .filter((f) => f.rule === 'no-duplicate-operation')
+      .map((f) => f.operation)
+  ).toEqual(['GET /api/users/{id}'])
+
+  expect(() =>
+    Paths(express(), { duplicates: 'throw' }, list, get, list)
+  ).toThrow("duplicate API definition 'GET /api/users/'")
+})
+
+test('Nested Controllers', async () => {
+  const auth: Security = {
+    name: 'auth',
+    handler: (_req: Request, res: Response) => {
+      res.status(401).send('Not Auth')
+    },
+    scopes: {
+      member: UserLevel(10),
+    },
+    responses: {
+      '401': {
+        description: 'Not auth',
+      },
+    },
+  }
+  const posts = Controller({
+    prefix: '/:userId/posts',
+    tags: ['posts'],
+    parameters: [
+      PathParam({
+        name: 'userId',
+        required: true,
+        schema: { type: 'string', pattern: '^\\d+$' },
+      }),
+    ],
+    route: (router: Router): AppRoute =>
+      Route(
+        router,
+        Path(
+          '/:postId',
+          Get({
+            responses: { '200': { description: 'post' } },
+            middleware: [
+              (req: Request, res: Response) => {
+                res.status(200).json(req.params)
+              },
+            ],
+          })
+        )
+      ),
+  })
+  const users = Controller({
+    prefix: '/users',
+    tags: ['users'],
+    scope: [Scope(auth, 'member')],
+    controllers: [posts],
+    route: (router: Router): AppRoute =>
+      Route(
+        router,
+        Path(
+          '/',
+          Get({
+            tags: ['directory'],
+            middleware: [
+              (_req: Request, res: Response) => {
+                res.status(200).json([])
+              },
+            ],
+          })
+        )
+      ),
+  })
+  const build = (level: number) => {
+    const app = express()
+    UserRequest(app, level)
+    const paths = Paths(
+      app,
+      Controller({ prefix: '/api/v1', controllers: [users] })
+    )
+    app.use(ProblemHandler)
+    return { app, paths }
+  }
+  const { app, paths } = build(50)
+  expect(Object.keys(paths)).toEqual([
+    '/api/v1/users/',
+    '/api/v1/users/{userId}/posts/{postId}',
+  ])
+  expect(paths['/api/v1/users/'].get).toMatchObject({
+    tags: ['directory'],
+    security: [{ auth: ['member'] }],
+  })
+  const post = paths['/api/v1/users/{userId}/posts/{postId}'].get
+  expect(post).toMatchObject({
+    tags: ['posts'],
+    security: [{ auth: ['member'] }],
+    responses: { '200': {}, '400': {}, '401': {} },
+  })
+  expect(post.parameters).toEqual([
+    {
+      in: 'path',
+      name: 'userId',
+      required: true,
+      schema: { type: 'string', pattern: '^\\d+$' },
+    },
+    { in: 'path', name: 'postId', required: true, schema: { type: 'string' } },
+  ])
+
+  // parent parameters reach nested routers and are validated there
+  const ok = await request(app).get('/api/v1/users/7/posts/3').expect(200)
+  expect(ok.body).toEqual({ userId: '7', postId: '3' })
+  await request(app).get('/api/v1/users/me/posts/3').expect(400)
+  // the parent scope secures nested operations
+  await request(build(5).app).get('/api/v1/users/7/posts/3').expect(401)
+})
+
+test('Shared Route Module', async () => {
+  const auth: Security = {
+    name: 'auth',
+    scheme: { type: 'apiKey', in: 'cookie', name: 'session' },
+    handler: (_req: Request, res: Response) => {
+      res.status(401).send('Not Auth')
+    },
+    scopes: {
+      admin: UserLevel(100),
+    },
+    responses: { '401': { description: 'Not auth' } },
+  }
+  // route modules hold their operations as module constants
+  const listItems = Get({
+    parameters: [QueryParam({ name: 'q', schema: { type: 'string' } })],
+    middleware: [
+      (_req: Request, res: Response) => {
+        res.status(200).json([])
+      },
+    ],
+  })
+  const route = (router: Router): AppRoute =>
+    Route(router, Path('/items', listItems))
+
+  const app = express()
+  const doc = App(
+    app,
+    { info: { title: 'Shared', version: '1.0.0' } },
+    Controller({
+      prefix: '/admin',
+      tags: ['admin'],
+      scope: [Scope(auth, 'admin')],
+      route,
+    }),
+    Controller({ prefix: '/public', route })
   )
+
+  expect(doc.paths['/admin/items'].get.security).toEqual([{ auth: ['admin'] }])
+  expect(doc.paths['/public/items'].get).not.toHaveProperty('security')
+  expect(doc.paths['/public/items'].get).not.toHaveProperty('tags')
+  expect(listItems.get).toEqual({
+    parameters: [{ in: 'query', name: 'q', schema: { type: 'string' } }],
+    middleware: [expect.any(Function)],
+  })
+  await request(app).get('/admin/items').expect(401)
+  await request(app).get('/public/items').expect(200)
 })
 
 test('Get', () => {
@@ -291,6 +543,325 @@ test('Multi Scope', (done) => {
     })
 })
 
+test('Async Scopes', async () => {
+  const session: Security<'member'> = {
+    name: 'session',
+    scheme: { type: 'apiKey', in: 'cookie', name: 'session' },
+    handler: (_req: Request, res: Response) => {
+      res.status(401).send('Not Auth')
+    },
+    scopes: {
+      // e.g. a session store lookup
+      member: async (req: UserAuth) => {
+        await new Promise((resolve) => setImmediate(resolve))
+        return (req.user?.level ?? 0) >= 10
+      },
+    },
+    responses: { '401': { description: 'Not auth' } },
+  }
+  const key: Security<'valid'> = {
+    name: 'apiKey',
+    scheme: { type: 'apiKey', in: 'header', name: 'X-Api-Key' },
+    handler: (_req: Request, res: Response) => {
+      res.status(403).send('Forbidden')
+    },
+    scopes: {
+      valid: async (req: Request) => req.get('X-Api-Key') === 'secret',
+    },
+    responses: { '403': { description: 'Forbidden' } },
+  }
+  const handler = (_req: Request, res: Response) => {
+    res.status(200).json({ ok: true })
+  }
+  const build = (level: number) => {
+    const app = express()
+    UserRequest(app, level)
+    const doc = App(
+      app,
+      { info: { title: 'Scopes', version: '1.0.0' } },
+      Controller({
+        prefix: '/api',
+        route: (router: Router): AppRoute =>
+          Route(
+            router,
+            Path(
+              '/any',
+              AuthPathOp(
+                AnyScope(Scope(session, 'member'), Scope(key, 'valid'))
+              )(Get({ middleware: [handler] }))
+            ),
+            Path(
+              '/all',
+              AuthPathOp(
+                AllScopes(Scope(session, 'member'), Scope(key, 'valid'))
+              )(Get({ middleware: [handler] }))
+            ),
+            Path(
+              '/stacked',
+              AuthPathOp(
+                Scope(session, 'member'),
+                Scope(key, 'valid')
+              )(Get({ middleware: [handler] }))
+            )
+          ),
+      })
+    )
+    return { app, doc }
+  }
+  const { app, doc } = build(20)
+  expect(doc.paths['/api/any'].get.security).toEqual([
+    { session: ['member'] },
+    { apiKey: ['valid'] },
+  ])
+  expect(doc.paths['/api/all'].get.security).toEqual([
+    { session: ['member'], apiKey: ['valid'] },
+  ])
+  expect(doc.paths['/api/stacked'].get.security).toEqual([
+    { session: ['member'], apiKey: ['valid'] },
+  ])
+  expect(Object.keys(doc.components.securitySchemes)).toEqual([
+    'session',
+    'apiKey',
+  ])
+
+  const anon = build(0).app
+  await request(app).get('/api/any').expect(200)
+  await request(anon).get('/api/any').expect(401)
+  await request(anon).get('/api/any').set('X-Api-Key', 'secret').expect(200)
+  await request(app).get('/api/all').expect(403)
+  await request(anon).get('/api/all').set('X-Api-Key', 'secret').expect(401)
+  await request(app).get('/api/all').set('X-Api-Key', 'secret').expect(200)
+  await request(app).get('/api/stacked').expect(403)
+  await request(app).get('/api/stacked').set('X-Api-Key', 'secret').expect(200)
+})
+
+test('Scope Denial Errors', async () => {
+  const key: Security<'valid'> = {
+    name: 'apiKey',
+    handler: () => {
+      throw new HttpError(401, 'no API key')
+    },
+    scopes: {
+      valid: async (req: Request) => req.get('X-Api-Key') === 'secret',
+    },
+    responses: { '401': { description: 'Not auth' } },
+  }
+  const handler = (_req: Request, res: Response) => {
+    res.status(200).json({ ok: true })
+  }
+  const app = express()
+  Paths(
+    app,
+    Controller({
+      prefix: '/api',
+      route: (router: Router): AppRoute =>
+        Route(
+          router,
+          Path(
+            '/one',
+            AuthPathOp(Scope(key, 'valid'))(Get({ middleware: [handler] }))
+          ),
+          Path(
+            '/any',
+            AuthPathOp(AnyScope(Scope(key, 'valid'), Scope(key, 'valid')))(
+              Get({ middleware: [handler] })
+            )
+          ),
+          Path(
+            '/bare',
+            AuthPathOp(
+              AnyScope({
+                ...Scope(key, 'valid'),
+                deny: undefined,
+              })
+            )(Get({ middleware: [handler] }))
+          )
+        ),
+    })
+  )
+  app.use(ProblemHandler)
+
+  await request(app).get('/api/one').expect(401)
+  await request(app).get('/api/any').expect(401)
+  const bare = await request(app).get('/api/bare').expect(403)
+  expect(JSON.parse(bare.text).detail).toBe("insufficient scope for 'apiKey'")
+  await request(app).get('/api/bare').set('X-Api-Key', 'secret').expect(200)
+})
+
+test('Built-in Securities', async () => {
+  const apiKey = ApiKeySecurity({
+    name: 'apiKey',
+    in: 'query',
+    key: 'api_key',
+    verify: (key) => (key === 'k1' ? { client: 'one' } : undefined),
+  })
+  const basic = BasicSecurity({
+    name: 'basic',
+    realm: 'users',
+    verify: async (username, password) =>
+      username === 'ada' && password === 'secret' ? { username } : undefined,
+  })
+  const jwt = JwtSecurity({
+    name: 'bearer',
+    algorithm: 'HS256',
+    key: 'shh',
+    issuer: 'https://auth.example.com',
+    scopes: { admin: claimScope('admin') },
+  })
+  const handler = (_req: Request, res: Response) => {
+    res.status(200).json({ ok: true })
+  }
+  const app = express()
+  const doc = App(
+    app,
+    { info: { title: 'Securities', version: '1.0.0' } },
+    Controller({
+      prefix: '/api',
+      route: (router: Router): AppRoute =>
+        Route(
+          router,
+          Path(
+            '/key',
+            AuthPathOp(Scope(apiKey))(Get({ middleware: [handler] }))
+          ),
+          Path(
+            '/basic',
+            AuthPathOp(Scope(basic))(Get({ middleware: [handler] }))
+          ),
+          Path(
+            '/admin',
+            AuthPathOp(Scope(jwt, 'admin'))(Get({ middleware: [handler] }))
+          )
+        ),
+    })
+  )
+  app.use(ProblemHandler)
+  expect(doc.components.securitySchemes).toEqual({
+    apiKey: { type: 'apiKey', in: 'query', name: 'api_key' },
+    basic: { type: 'http', scheme: 'basic' },
+    bearer: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+  })
+  expect(doc.paths['/api/key'].get.security).toEqual([{ apiKey: [] }])
+  expect(Object.keys(doc.paths['/api/admin'].get.responses)).toEqual([
+    '401',
+    '403',
+  ])
+
+  await request(app).get('/api/key?api_key=k1').expect(200)
+  await request(app).get('/api/key?api_key=k2').expect(401)
+  const anon = await request(app).get('/api/basic').expect(401)
+  expect(anon.headers['www-authenticate']).toBe('Basic realm="users"')
+  await request(app).get('/api/basic').auth('ada', 'secret').expect(200)
+  await request(app).get('/api/basic').auth('ada', 'guess').expect(401)
+
+  const iss = 'https://auth.example.com'
+  const exp = Math.floor(Date.now() / 1000) + 60
+  const bearer = (token: string) =>
+    request(app).get('/api/admin').set('Authorization', `Bearer ${token}`)
+  await bearer(signJwt({ iss, exp, scope: 'read admin' }, 'shh')).expect(200)
+  const denied = await bearer(signJwt({ iss, exp, scope: 'read' }, 'shh'))
+  expect(denied.status).toBe(403)
+  expect(denied.body.detail).toBe("insufficient scope for 'bearer'")
+  await bearer(signJwt({ iss, exp, scope: 'admin' }, 'guess')).expect(401)
+  await bearer(signJwt({ iss, exp: exp - 120, scope: 'admin' }, 'shh')).expect(
+    401
+  )
+  await bearer(signJwt({ exp, scope: 'admin' }, 'shh')).expect(401)
+
+  // RS256 with the public key, tokens naming another algorithm are refused
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  })
+  const rs = { algorithm: 'RS256' as const, key: publicKey }
+  expect(verifyJwt(signJwt({ sub: 'ada' }, privateKey, 'RS256'), rs)).toEqual({
+    sub: 'ada',
+  })
+  expect(verifyJwt(signJwt({ sub: 'ada' }, publicKey), rs)).toBeUndefined()
+  expect(verifyJwt('not.a.token', rs)).toBeUndefined()
+})
+
+test('OAuth2 Scopes', async () => {
+  const oauth = OAuth2Security({
+    name: 'oauth',
+    algorithm: 'HS256',
+    key: 'shh',
+    flows: {
+      clientCredentials: {
+        tokenUrl: 'https://auth.example.com/token',
+        scopes: {
+          'users:read': 'Read users',
+          'users:write': 'Modify users',
+        },
+      },
+    },
+  })
+  const handler = (_req: Request, res: Response) => {
+    res.status(200).json({ ok: true })
+  }
+  const app = express()
+  const doc = App(
+    app,
+    { info: { title: 'OAuth2', version: '1.0.0' } },
+    Controller({
+      prefix: '/api/users',
+      route: (router: Router): AppRoute =>
+        Route(
+          router,
+          Path(
+            '/',
+            AuthPathOp(Scope(oauth, 'users:read'))(
+              Get({ middleware: [handler] })
+            ),
+            AuthPathOp(
+              AllScopes(Scope(oauth, 'users:read'), Scope(oauth, 'users:write'))
+            )(Post({ middleware: [handler] }))
+          )
+        ),
+    })
+  )
+  app.use(ProblemHandler)
+  expect(doc.components.securitySchemes.oauth).toEqual({
+    type: 'oauth2',
+    flows: {
+      clientCredentials: {
+        tokenUrl: 'https://auth.example.com/token',
+        scopes: { 'users:read': 'Read users', 'users:write': 'Modify users' },
+      },
+    },
+  })
+  expect(doc.paths['/api/users/'].get.security).toEqual([
+    { oauth: ['users:read'] },
+  ])
+  expect(doc.paths['/api/users/'].post.security).toEqual([
+    { oauth: ['users:read', 'users:write'] },
+  ])
+
+  const token = (scope: string) => `Bearer ${signJwt({ scope }, 'shh')}`
+  await request(app)
+    .get('/api/users/')
+    .set('Authorization', token('users:read'))
+    .expect(200)
+  await request(app)
+    .get('/api/users/')
+    .set('Authorization', token('users:write'))
+    .expect(403)
+  await request(app)
+    .post('/api/users/')
+    .set('Authorization', token('users:read'))
+    .expect(403)
+  await request(app)
+    .post('/api/users/')
+    .set('Authorization', token('users:write users:read'))
+    .expect(200)
+
+  // scopes outside the flows fail at startup
+  expect(() => Scope(oauth, 'users:delete' as 'users:read')).toThrow(
+    "security 'oauth' defines no scope users:delete"
+  )
+})
+
 test('Router Security', (done) => {
   const auth: Security = {
     name: 'auth',
@@ -471,6 +1042,140 @@ test('Nested Path Pattern', (done) => {
     })
 })
 
+test('Path Parameters', () => {
+  const handler = (_req: Request, res: Response) => {
+    res.status(200).json({})
+  }
+  const build = (path: string, ...parameters: ReturnType<typeof PathParam>[]) =>
+    Paths(
+      express(),
+      Controller({
+        prefix: '/api/items',
+        route: (router: Router): AppRoute =>
+          Route(router, Path(path, Get({ parameters, middleware: [handler] }))),
+      })
+    )
+
+  // undeclared parameters are documented from the route constraint
+  const derived = build('/:id(\\d+)/tags/:tag')
+  expect(derived['/api/items/{id}/tags/{tag}'].get.parameters).toEqual([
+    {
+      in: 'path',
+      name: 'id',
+      required: true,
+      schema: { type: 'string', pattern: '^\\d+$' },
+    },
+    { in: 'path', name: 'tag', required: true, schema: { type: 'string' } },
+  ])
+
+  // declared parameters are required and take the constraint as pattern
+  const declared = build(
+    '/:id(\\d+)/tags/:tag([a-z]+)',
+    PathParam({ name: 'id', schema: { type: 'integer' } }),
+    PathParam({ name: 'tag', schema: { type: 'string', pattern: '[a-z]+' } })
+  )
+  expect(declared['/api/items/{id}/tags/{tag}'].get.parameters).toEqual([
+    { in: 'path', name: 'id', required: true, schema: { type: 'integer' } },
+    {
+      in: 'path',
+      name: 'tag',
+      required: true,
+      schema: { type: 'string', pattern: '[a-z]+' },
+    },
+  ])
+
+  // drift between the schema and the route fails at startup
+  expect(() =>
+    build(
+      '/:id(\\d+)',
+      PathParam({ name: 'id', schema: { type: 'string', pattern: '^\\w+$' } })
+    )
+  ).toThrow(
+    "PathParam 'id' pattern '^\\w+$' does not match route constraint '\\d+' in '/api/items/:id(\\d+)'"
+  )
+  expect(() =>
+    build('/:id', PathParam({ name: 'key', schema: { type: 'string' } }))
+  ).toThrow("PathParam 'key' is not in path '/api/items/:id'")
+})
+
+test('Express Path Conversion', async () => {
+  const handler = (req: Request, res: Response) => {
+    res.status(200).json(req.params)
+  }
+  const build = (...paths: string[]) => {
+    const app = express()
+    const api = Paths(
+      app,
+      Controller({
+        prefix: '/api',
+        route: (router: Router): AppRoute =>
+          Route(
+            router,
+            // a single path item, as returned by `Path`
+            paths.reduce(
+              (acc, path) => ({
+                ...acc,
+                ...Path(path, Get({ middleware: [handler] })),
+              }),
+              {}
+            )
+          ),
+      })
+    )
+    return { app, api }
+  }
+  const { app, api } = build(
+    '/files/*',
+    '/users/:id(\\d+)?',
+    '/range/:from-:to',
+    '/report.:format?'
+  )
+  expect(Object.keys(api)).toEqual([
+    '/api/files/{0}',
+    '/api/users',
+    '/api/users/{id}',
+    '/api/range/{from}-{to}',
+    '/api/report',
+    '/api/report.{format}',
+  ])
+  expect(api['/api/files/{0}'].get.parameters).toEqual([
+    {
+      in: 'path',
+      name: '0',
+      required: true,
+      schema: { type: 'string', pattern: '^.*$' },
+    },
+  ])
+  expect(api['/api/users'].get.parameters).toBeUndefined()
+  expect(api['/api/users/{id}'].get.parameters).toEqual([
+    {
+      in: 'path',
+      name: 'id',
+      required: true,
+      schema: { type: 'string', pattern: '^\\d+$' },
+    },
+  ])
+  expect(
+    api['/api/range/{from}-{to}'].get.parameters.map((p) => p.name)
+  ).toEqual(['from', 'to'])
+
+  // documented names are the ones express.js gives `req.params`
+  const files = await request(app).get('/api/files/a/b.txt').expect(200)
+  expect(files.body).toEqual({ 0: 'a/b.txt' })
+  const range = await request(app).get('/api/range/3-7').expect(200)
+  expect(range.body).toEqual({ from: '3', to: '7' })
+
+  expect(() => build('/files/:path*')).toThrow(
+    "cannot document express.js path '/api/files/:path*': use ':path(*)' to match the rest of the path"
+  )
+  expect(() => build('/colou?r')).toThrow(
+    "cannot document express.js path '/api/colou?r': unsupported '?'"
+  )
+  expect(() => build('/:id', '/:id?')).toThrow(
+    "'GET /api/{id}' is documented twice in '/api/:id?'"
+  )
+})
+
 test('Validate', (done) => {
   const app = express()
   const { router } = Route(
@@ -565,3 +1270,1863 @@ test('Validate requestBody', (done) => {
       done()
     })
 })
+
+test('Validate Header', (done) => {
+  const app = express()
+  const api = Paths(
+    app,
+    Controller({
+      prefix: '/test',
+      route: (router: Router): AppRoute =>
+        Route(
+          router,
+          Path(
+            '/',
+            Get({
+              parameters: [
+                HeaderParam({
+                  name: 'X-Request-Id',
+                  required: true,
+                  schema: {
+                    type: 'string',
+                    minLength: 4,
+                  },
+                }),
+              ],
+              middleware: [
+                (_req: Request, res: Response) => {
+                  res.status(200).json({ foo: 'bar' })
+                },
+              ],
+            })
+          )
+        ),
+    })
+  )
+  app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+    res.status(400).send({ err: err.message })
+  })
+
+  expect(api['/test/'].get?.parameters).toMatchObject([
+    { in: 'header', name: 'X-Request-Id' },
+  ])
+
+  request(app)
+    .get('/test/')
+    .set('x-REQUEST-id', 'abcd')
+    .end((_err, res) => {
+      expect(res.status).toBe(200)
+      request(app)
+        .get('/test/')
+        .end((_err, res) => {
+          expect(res.status).toBe(400)
+          done()
+        })
+    })
+})
+
+test('Validate Cookie', (done) => {
+  const app = express()
+  const { router } = Route(
+    express.Router(),
+    Path(
+      '/',
+      Get({
+        parameters: [
+          CookieParam({
+            name: 'session',
+            required: true,
+            schema: {
+              type: 'string',
+              pattern: '^[a-f0-9]+$',
+            },
+          }),
+        ],
+        middleware: [
+          (_req: Request, res: Response) => {
+            res.status(200).json({ foo: 'bar' })
+          },
+        ],
+      })
+    )
+  )
+
+  app.use('/test', router)
+  app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+    res.status(400).send({ err: err.message })
+  })
+
+  request(app)
+    .get('/test')
+    .set('Cookie', 'theme=dark; session=abc123')
+    .end((_err, res) => {
+      expect(res.status).toBe(200)
+      request(app)
+        .get('/test')
+        .set('Cookie', 'session=nothex')
+        .end((_err, res) => {
+          expect(res.status).toBe(400)
+          done()
+        })
+    })
+})
+
+test('Validate Responses', (done) => {
+  const app = express()
+  const Strict = ValidateResponses('throw')
+  const { router } = Route(
+    express.Router(),
+    Path(
+      '/:valid',
+      Strict(
+        Get({
+          middleware: [
+            (req: Request, res: Response) => {
+              res
+                .status(200)
+                .json(req.params.valid === 'yes' ? { foo: 'bar' } : { foo: 1 })
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'ok',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: { foo: { type: 'string' } },
+                    required: ['foo'],
+                  },
+                },
+              },
+            },
+          },
+        })
+      )
+    )
+  )
+
+  app.use('/test', router)
+  app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+    res.status(500).send({
+      err: err.message,
+      context: err instanceof ValidationError ? err.context : undefined,
+    })
+  })
+
+  request(app)
+    .get('/test/yes')
+    .end((_err, res) => {
+      expect(res.status).toBe(200)
+      expect(res.body).toEqual({ foo: 'bar' })
+      request(app)
+        .get('/test/no')
+        .end((_err, res) => {
+          expect(res.status).toBe(500)
+          expect(res.body).toMatchObject({
+            err: 'AejoResponseValidationError',
+            context: { status: 200, contentType: 'application/json' },
+          })
+          done()
+        })
+    })
+})
+
+test('Report Responses', (done) => {
+  const report = jest.fn()
+  const app = express()
+  const { router } = Route(
+    express.Router(),
+    Path(
+      '/',
+      ValidateResponses({ mode: 'report', report })(
+        Get({
+          middleware: [
+            (_req: Request, res: Response) => {
+              res.status(201).send('created')
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'ok',
+            },
+          },
+        })
+      )
+    )
+  )
+
+  app.use('/test', router)
+
+  request(app)
+    .get('/test')
+    .end((_err, res) => {
+      expect(res.status).toBe(201)
+      expect(report).toHaveBeenCalledTimes(1)
+      expect(report.mock.calls[0][0].context).toMatchObject({
+        status: 201,
+        errors: [{ message: 'undeclared status code 201' }],
+      })
+      done()
+    })
+})
+
+test('App Document', () => {
+  const app = express()
+  const auth: Security = {
+    name: 'auth',
+    scheme: {
+      type: 'http',
+      scheme: 'bearer',
+    },
+    handler: (_req: Request, res: Response) => {
+      res.status(401).send('Not Auth')
+    },
+    scopes: {
+      admin: UserLevel(100),
+    },
+    responses: {
+      '401': {
+        description: 'Not auth',
+      },
+    },
+  }
+  const AdminAuth = AuthPathOp(Scope(auth, 'admin'))
+  const doc = App(
+    app,
+    {
+      info: {
+        title: 'Test API',
+        version: '1.0.0',
+      },
+      servers: [{ url: 'http://localhost:3000' }],
+      tags: [{ name: 'users', description: 'User records' }],
+    },
+    Controller({
+      prefix: '/api/users',
+      route: (router: Router): AppRoute =>
+        Route(
+          router,
+          Path(
+            '/',
+            Get({
+              tags: ['users'],
+              middleware: [routeHandler],
+            }),
+            AdminAuth(
+              Post({
+                tags: ['admin'],
+                middleware: [routeHandler],
+                responses: {
+                  '201': {
+                    description: 'created',
+                  },
+                },
+              })
+            )
+          )
+        ),
+    })
+  )
+  expect(doc).toMatchObject({
+    openapi: '3.0.3',
+    info: { title: 'Test API', version: '1.0.0' },
+    servers: [{ url: 'http://localhost:3000' }],
+    tags: [{ name: 'users', description: 'User records' }, { name: 'admin' }],
+    components: {
+      securitySchemes: {
+        auth: { type: 'http', scheme: 'bearer' },
+      },
+    },
+  })
+  const get = doc.paths['/api/users/'].get
+  expect(get).toEqual({
+    tags: ['users'],
+    responses: { default: { description: 'Default response' } },
+  })
+  const post = doc.paths['/api/users/'].post
+  expect(post).not.toHaveProperty('middleware')
+  expect(post).not.toHaveProperty('scope')
+  expect(post?.security).toEqual([{ auth: ['admin'] }])
+})
+
+test('Component Schemas', (done) => {
+  const Tag = SchemaComponent('TestTag', {
+    type: 'string',
+    minLength: 1,
+  })
+  const Widget = SchemaComponent('TestWidget', {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      tags: { type: 'array', items: Tag },
+    },
+    required: ['name'],
+  })
+  const app = express()
+  app.use(express.json())
+  const doc = App(
+    app,
+    { info: { title: 'Widgets', version: '1.0.0' } },
+    Controller({
+      prefix: '/widgets',
+      route: (router: Router): AppRoute =>
+        Route(
+          router,
+          Path(
+            '/',
+            Post({
+              requestBody: {
+                description: 'Widget',
+                content: {
+                  'application/json': {
+                    schema: Widget,
+                  },
+                },
+              },
+              middleware: [
+                (_req: Request, res: Response) => {
+                  res.status(201).json({ ok: true })
+                },
+              ],
+            })
+          )
+        ),
+    })
+  )
+  app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+    res.status(400).send({ err: err.message })
+  })
+
+  expect(doc.paths['/widgets/'].post?.requestBody?.content).toEqual({
+    'application/json': {
+      schema: { $ref: '#/components/schemas/TestWidget' },
+    },
+  })
+  expect(Object.keys(doc.components?.schemas || {}).sort()).toEqual([
+    'ProblemDetails',
+    'TestTag',
+    'TestWidget',
+  ])
+
+  request(app)
+    .post('/widgets')
+    .send({ name: 'foo', tags: ['bar'] })
+    .end((_err, res) => {
+      expect(res.status).toBe(201)
+      request(app)
+        .post('/widgets')
+        .send({ name: 'foo', tags: [''] })
+        .end((_err, res) => {
+          expect(res.status).toBe(400)
+          done()
+        })
+    })
+})
+
+test('Component Schemas Per App', async () => {
+  const build = (schema: ParamSchema) => {
+    const Shared = SchemaComponent('Shared', schema)
+    const app = express()
+    app.use(express.json())
+    // names are resolved per AJV instance, so each app gets its own
+    const doc = App(
+      app,
+      { ajv: {}, info: { title: 'Shared', version: '1.0.0' } },
+      Controller({
+        prefix: '/shared',
+        route: (router: Router): AppRoute =>
+          Route(
+            router,
+            Path(
+              '/',
+              Post({
+                requestBody: {
+                  description: 'Shared',
+                  content: { 'application/json': { schema: Shared } },
+                },
+                middleware: [
+                  (_req: Request, res: Response) => {
+                    res.status(204).end()
+                  },
+                ],
+              })
+            )
+          ),
+      })
+    )
+    app.use(ProblemHandler)
+    return { app, doc, Shared }
+  }
+  const numbers = build({ type: 'object', required: ['count'] })
+  const names = build({ type: 'object', required: ['name'] })
+  expect(numbers.doc.components.schemas.Shared).toEqual({
+    type: 'object',
+    required: ['count'],
+  })
+  expect(names.doc.components.schemas.Shared).toEqual({
+    type: 'object',
+    required: ['name'],
+  })
+  await request(numbers.app).post('/shared').send({ count: 1 }).expect(204)
+  await request(names.app).post('/shared').send({ count: 1 }).expect(400)
+  await request(names.app).post('/shared').send({ name: 'a' }).expect(204)
+
+  // one application cannot reference two schemas under one name
+  expect(() =>
+    Route(
+      express.Router(),
+      Path(
+        '/',
+        Post({
+          requestBody: {
+            description: 'Both',
+            content: {
+              'application/json': {
+                schema: { anyOf: [numbers.Shared, names.Shared] },
+              },
+            },
+          },
+          middleware: [],
+        })
+      )
+    )
+  ).toThrow("component schema 'Shared' is defined more than once")
+})
+
+test('Typed Operation', (done) => {
+  const app = express()
+  const { router } = Route(
+    express.Router(),
+    Path(
+      '/:id',
+      Get(
+        Operation({
+          parameters: [
+            PathParam({
+              name: 'id',
+              schema: { type: 'string' },
+            }),
+            QueryParam({
+              name: 'limit',
+              schema: { type: 'string', pattern: '^\\d+$' },
+            }),
+          ],
+          responses: {
+            '200': {
+              description: 'ok',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string' },
+                      limit: { type: 'string' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          middleware: [
+            (req, res) => {
+              res
+                .status(200)
+                .json({ id: req.params.id, limit: req.query.limit })
+            },
+          ],
+        })
+      )
+    )
+  )
+  app.use('/test', router)
+
+  request(app)
+    .get('/test/abc')
+    .query({ limit: '5' })
+    .end((_err, res) => {
+      expect(res.status).toBe(200)
+      expect(res.body).toEqual({ id: 'abc', limit: '5' })
+      done()
+    })
+})
+
+test('Problem Details', (done) => {
+  const app = express()
+  app.use(express.json())
+  const doc = App(
+    app,
+    { info: { title: 'Problems', version: '1.0.0' } },
+    Controller({
+      prefix: '/test',
+      route: (router: Router): AppRoute =>
+        Route(
+          router,
+          Path(
+            '/',
+            Post({
+              parameters: [
+                QueryParam({
+                  name: 'limit',
+                  schema: { type: 'integer' },
+                }),
+              ],
+              requestBody: {
+                description: 'Record',
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: 'object',
+                      properties: { name: { type: 'string' } },
+                      required: ['name'],
+                    },
+                  },
+                },
+              },
+              middleware: [
+                (_req: Request, res: Response) => {
+                  res.status(200).json({ foo: 'bar' })
+                },
+              ],
+            })
+          )
+        ),
+    })
+  )
+  app.use(ProblemHandler)
+
+  expect(doc.paths['/test/'].post?.responses?.['400']).toEqual({
+    description: 'Validation error',
+    content: {
+      'application/problem+json': {
+        schema: { $ref: '#/components/schemas/ProblemDetails' },
+      },
+    },
+  })
+
+  request(app)
+    .post('/test')
+    .query({ limit: 'foo' })
+    .send({ name: 'foo' })
+    .end((_err, res) => {
+      expect(res.status).toBe(400)
+      expect(res.headers['content-type']).toMatch(/application\/problem\+json/)
+      expect(JSON.parse(res.text)).toMatchObject({
+        title: 'Bad Request',
+        status: 400,
+        instance: '/test?limit=foo',
+        errors: [
+          { in: 'query', pointer: '/limit', message: 'limit must be integer' },
+        ],
+      })
+      request(app)
+        .post('/test')
+        .send({})
+        .end((_err, res) => {
+          expect(JSON.parse(res.text).errors).toEqual([
+            {
+              in: 'body',
+              pointer: '/name',
+              message: "name must have required property 'name'",
+            },
+          ])
+          done()
+        })
+    })
+})
+
+test('Application AJV', (done) => {
+  const limitPath = () =>
+    Path(
+      '/',
+      Get({
+        parameters: [
+          QueryParam({
+            name: 'limit',
+            schema: { type: 'integer' },
+          }),
+        ],
+        middleware: [
+          (req: Request, res: Response) => {
+            res.status(200).json({ limit: req.query.limit })
+          },
+        ],
+      })
+    )
+  const limitController = (ajv?: { coerceTypes: boolean }) =>
+    Controller({
+      prefix: '/test',
+      route: (router: Router): AppRoute => Route(router, limitPath()),
+      ajv,
+    })
+  const errorHandler = (
+    err: Error,
+    _req: Request,
+    res: Response,
+    _next: NextFunction
+  ) => {
+    res.status(400).send({ err: err.message })
+  }
+
+  const coerced = express()
+  Paths(coerced, { ajv: createAjv({ coerceTypes: true }) }, limitController())
+  coerced.use(errorHandler)
+
+  const strict = express()
+  Paths(strict, limitController())
+  strict.use(errorHandler)
+
+  const controller = express()
+  Paths(controller, limitController({ coerceTypes: true }))
+  controller.use(errorHandler)
+
+  request(coerced)
+    .get('/test')
+    .query({ limit: '5' })
+    .end((_err, res) => {
+      expect(res.status).toBe(200)
+      expect(res.body).toEqual({ limit: 5 })
+      request(strict)
+        .get('/test')
+        .query({ limit: '5' })
+        .end((_err, res) => {
+          expect(res.status).toBe(400)
+          request(controller)
+            .get('/test')
+            .query({ limit: '5' })
+            .end((_err, res) => {
+              expect(res.status).toBe(200)
+              done()
+            })
+        })
+    })
+})
+
+test('Operation AJV Overrides', (done) => {
+  const app = express()
+  app.use(express.json())
+  const { router } = Route(
+    express.Router(),
+    Path(
+      '/',
+      Post({
+        validation: { useDefaults: true, removeAdditional: 'all' },
+        requestBody: {
+          description: 'Record',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string', default: 'anon' },
+                },
+                additionalProperties: false,
+              },
+            },
+          },
+        },
+        middleware: [
+          (req: Request, res: Response) => {
+            res.status(200).json(req.body)
+          },
+        ],
+      })
+    )
+  )
+  app.use('/test', router)
+
+  request(app)
+    .post('/test')
+    .send({ extra: true })
+    .end((_err, res) => {
+      expect(res.status).toBe(200)
+      expect(res.body).toEqual({ name: 'anon' })
+      done()
+    })
+})
+
+test('Operation AJV Overrides Keep Headers', (done) => {
+  const app = express()
+  app.use(express.json())
+  const { router } = Route(
+    express.Router(),
+    Path(
+      '/',
+      Post({
+        validation: { useDefaults: true, removeAdditional: 'all' },
+        parameters: [
+          HeaderParam({
+            name: 'x-request-id',
+            schema: { type: 'string', default: 'none' },
+          }),
+        ],
+        middleware: [
+          (req: Request, res: Response) => {
+            res.status(200).json({
+              authorization: req.get('authorization'),
+              requestId: req.get('x-request-id') ?? null,
+            })
+          },
+        ],
+      })
+    )
+  )
+  app.use('/test', router)
+  app.use(ProblemHandler)
+
+  request(app)
+    .post('/test')
+    .set('Authorization', 'Bearer abc')
+    .send({})
+    .end((_err, res) => {
+      expect(res.status).toBe(200)
+      expect(res.body).toEqual({
+        authorization: 'Bearer abc',
+        requestId: null,
+      })
+      done()
+    })
+})
+
+test('Validate Form Bodies', (done) => {
+  const app = express()
+  const { router } = Route(
+    express.Router(),
+    Path(
+      '/',
+      Post({
+        validation: { coerceTypes: true },
+        requestBody: {
+          description: 'Upload',
+          content: {
+            'application/x-www-form-urlencoded': {
+              schema: {
+                type: 'object',
+                properties: { name: { type: 'string' } },
+                required: ['name'],
+              },
+            },
+            'multipart/form-data': {
+              schema: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  count: { type: 'integer' },
+                  avatar: { type: 'string', format: 'binary', maxLength: 8 },
+                },
+                required: ['name', 'avatar'],
+              },
+              encoding: {
+                avatar: { contentType: 'image/*' },
+              },
+            },
+          },
+        },
+        middleware: [
+          (req: Request & { files?: UploadedFiles }, res: Response) => {
+            res.status(200).json({
+              body: req.body,
+              files: Object.keys(req.files || {}),
+            })
+          },
+        ],
+      })
+    )
+  )
+  app.use('/test', router)
+  app.use(ProblemHandler)
+
+  request(app)
+    .post('/test')
+    .type('form')
+    .send({ name: 'foo' })
+    .end((_err, res) => {
+      expect(res.status).toBe(200)
+      expect(res.body).toEqual({ body: { name: 'foo' }, files: [] })
+      request(app)
+        .post('/test')
+        .field('name', 'foo')
+        .field('count', '2')
+        .attach('avatar', Buffer.from('abc'), {
+          filename: 'a.png',
+          contentType: 'image/png',
+        })
+        .end((_err, res) => {
+          expect(res.status).toBe(200)
+          expect(res.body).toEqual({
+            body: { name: 'foo', count: 2 },
+            files: ['avatar'],
+          })
+          request(app)
+            .post('/test')
+            .field('name', 'foo')
+            .attach('avatar', Buffer.from('too large file'), {
+              filename: 'a.txt',
+              contentType: 'text/plain',
+            })
+            .end((_err, res) => {
+              expect(res.status).toBe(400)
+              expect(JSON.parse(res.text).errors).toEqual([
+                {
+                  in: 'body',
+                  pointer: '/avatar',
+                  message: 'avatar must NOT be larger than 8 bytes',
+                },
+                {
+                  in: 'body',
+                  pointer: '/avatar',
+                  message: 'avatar must be image/*',
+                },
+              ])
+              request(app)
+                .post('/test')
+                .type('text/plain')
+                .send('foo')
+                .end((_err, res) => {
+                  expect(res.status).toBe(415)
+                  done()
+                })
+            })
+        })
+    })
+})
+
+test('Method Coverage', (done) => {
+  expect(Patch({ middleware: [routeHandler] })).toHaveProperty('patch')
+  expect(AsyncPatch({ middleware: [routeHandler] }).patch).toHaveProperty(
+    'wrapper'
+  )
+  const app = express()
+  const { router } = Route(
+    express.Router(),
+    Path(
+      '/:id',
+      Get({
+        middleware: [
+          (_req: Request, res: Response) => {
+            res.status(200).json({ foo: 'bar' })
+          },
+        ],
+      })
+    ),
+    Path(
+      '/:id',
+      Patch({
+        middleware: [
+          (_req: Request, res: Response) => {
+            res.status(200).json({ patched: true })
+          },
+        ],
+      }),
+      Delete({
+        middleware: [
+          (_req: Request, res: Response) => {
+            res.status(204).end()
+          },
+        ],
+      })
+    )
+  )
+  app.use('/test', router)
+
+  request(app)
+    .options('/test/1')
+    .end((_err, res) => {
+      expect(res.status).toBe(204)
+      expect(res.headers['allow']).toBe('GET, HEAD, PATCH, DELETE, OPTIONS')
+      request(app)
+        .patch('/test/1')
+        .end((_err, res) => {
+          expect(res.body).toEqual({ patched: true })
+          request(app)
+            .delete('/test/1')
+            .end((_err, res) => {
+              expect(res.status).toBe(204)
+              done()
+            })
+        })
+    })
+})
+
+test('OPTIONS Across Controllers', (done) => {
+  const app = express()
+  const handler = (_req: Request, res: Response) => {
+    res.status(204).end()
+  }
+  Paths(
+    app,
+    Controller({
+      prefix: '/api/users',
+      route: (router: Router): AppRoute =>
+        Route(router, Path('/:id', Get({ middleware: [handler] }))),
+    }),
+    Controller({
+      prefix: '/api/users',
+      route: (router: Router): AppRoute =>
+        Route(router, Path('/:id', Delete({ middleware: [handler] }))),
+    })
+  )
+
+  request(app)
+    .options('/api/users/1')
+    .end((_err, res) => {
+      expect(res.status).toBe(204)
+      expect(res.headers['allow']).toBe('GET, HEAD, DELETE, OPTIONS')
+      done()
+    })
+})
+
+test('Fallback Handlers', (done) => {
+  expect(() =>
+    Route(
+      express.Router(),
+      // @ts-expect-error fallbacks apply across the controllers of Paths
+      { fallback: true },
+      Path('/', Get({ middleware: [routeHandler] }))
+    )
+  ).toThrow("Route does not support 'fallback', use Paths or Controller")
+  const app = express()
+  Paths(
+    app,
+    { fallback: true },
+    Controller({
+      prefix: '/api/users',
+      route: (router: Router): AppRoute =>
+        Route(
+          router,
+          Path(
+            '/:id',
+            Get({
+              middleware: [
+                (_req: Request, res: Response) => {
+                  res.status(200).json({ foo: 'bar' })
+                },
+              ],
+            })
+          )
+        ),
+    })
+  )
+  app.get('/other', (_req: Request, res: Response) => {
+    res.status(200).json({ other: true })
+  })
+
+  request(app)
+    .post('/api/users/1')
+    .end((_err, res) => {
+      expect(res.status).toBe(405)
+      expect(res.headers['allow']).toBe('GET, HEAD, OPTIONS')
+      expect(JSON.parse(res.text)).toMatchObject({
+        title: 'Method Not Allowed',
+        status: 405,
+      })
+      request(app)
+        .get('/api/users/1/posts')
+        .end((_err, res) => {
+          expect(res.status).toBe(404)
+          expect(res.headers['content-type']).toMatch(/problem\+json/)
+          request(app)
+            .get('/other')
+            .end((_err, res) => {
+              expect(res.status).toBe(200)
+              done()
+            })
+        })
+    })
+})
+
+test('Fallback Across Controllers', (done) => {
+  const app = express()
+  const handler = (req: Request, res: Response) => {
+    res.status(200).json({ method: req.method })
+  }
+  Paths(
+    app,
+    Controller({
+      prefix: '/api/users',
+      fallback: true,
+      route: (router: Router): AppRoute =>
+        Route(router, Path('/:id', Get({ middleware: [handler] }))),
+    }),
+    Controller({
+      prefix: '/api/users',
+      route: (router: Router): AppRoute =>
+        Route(
+          router,
+          Path('/:id', Delete({ middleware: [handler] })),
+          Path('/:id/posts', Get({ middleware: [handler] }))
+        ),
+    })
+  )
+
+  request(app)
+    .delete('/api/users/1')
+    .end((_err, res) => {
+      expect(res.status).toBe(200)
+      expect(res.body).toEqual({ method: 'DELETE' })
+      request(app)
+        .get('/api/users/1/posts')
+        .end((_err, res) => {
+          expect(res.status).toBe(200)
+          request(app)
+            .post('/api/users/1')
+            .end((_err, res) => {
+              expect(res.status).toBe(405)
+              expect(res.headers['allow']).toBe('GET, HEAD, DELETE, OPTIONS')
+              request(app)
+                .get('/api/users/1/likes')
+                .end((_err, res) => {
+                  expect(res.status).toBe(404)
+                  done()
+                })
+            })
+        })
+    })
+})
+
+test('Spec First', (done) => {
+  const contract: SpecDocument = {
+    openapi: '3.0.3',
+    info: { title: 'Contract', version: '1.0.0' },
+    paths: {
+      '/users/{id}': {
+        parameters: [{ $ref: '#/components/parameters/UserId' }],
+        get: {
+          operationId: 'getUser',
+          responses: { '200': { description: 'ok' } },
+        },
+        put: {
+          operationId: 'updateUser',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/SpecUser' },
+              },
+            },
+          },
+          responses: { '204': { description: 'updated' } },
+        },
+      },
+    },
+    components: {
+      parameters: {
+        UserId: {
+          in: 'path',
+          name: 'id',
+          required: true,
+          schema: { type: 'string', pattern: '^\\d+$' },
+        },
+      },
+      schemas: {
+        SpecUser: {
+          type: 'object',
+          properties: { name: { type: 'string', example: 'Ada' } },
+          required: ['name'],
+        },
+      },
+    },
+  }
+  const getUser = (req: Request, res: Response) => {
+    res.status(200).json({ id: req.params.id })
+  }
+  const updateUser = (_req: Request, res: Response) => {
+    res.status(204).end()
+  }
+
+  expect(() => SpecRoute(express.Router(), contract, { getUser })).toThrow(
+    "no handler for operation 'updateUser'"
+  )
+  expect(() =>
+    SpecRoute(express.Router(), contract, {
+      getUser,
+      updateUser,
+      deleteUser: updateUser,
+    })
+  ).toThrow("handler 'deleteUser' matches no operation")
+
+  const app = express()
+  app.use(express.json())
+  const api = Paths(
+    app,
+    Controller({
+      prefix: '/api',
+      route: (router: Router): AppRoute =>
+        SpecRoute(router, contract, { getUser, updateUser }),
+    })
+  )
+  app.use(ProblemHandler)
+  expect(Object.keys(api['/api/users/{id}'])).toEqual(['get', 'put'])
+
+  request(app)
+    .get('/api/users/12')
+    .end((_err, res) => {
+      expect(res.body).toEqual({ id: '12' })
+      request(app)
+        .get('/api/users/abc')
+        .end((_err, res) => {
+          expect(res.status).toBe(400)
+          request(app)
+            .put('/api/users/12')
+            .send({})
+            .end((_err, res) => {
+              expect(res.status).toBe(400)
+              expect(JSON.parse(res.text).errors[0].pointer).toBe('/name')
+              done()
+            })
+        })
+    })
+})
+
+test('Spec First Injected AJV', async () => {
+  const contract: SpecDocument = {
+    openapi: '3.0.3',
+    info: { title: 'Pets', version: '1.0.0' },
+    paths: {
+      '/pets/{id}': {
+        get: {
+          operationId: 'getPet',
+          parameters: [
+            {
+              in: 'path',
+              name: 'id',
+              required: true,
+              schema: { type: 'integer' },
+            },
+          ],
+          responses: { '200': { description: 'ok' } },
+        },
+      },
+    },
+  }
+  const getPet = (req: Request, res: Response) => {
+    res.status(200).json({ id: req.params.id })
+  }
+  const spec = (router: Router): AppRoute =>
+    SpecRoute(router, contract, { getPet })
+
+  const app = express()
+  Paths(
+    app,
+    { ajv: { coerceTypes: true } },
+    Controller({ prefix: '/app', route: spec }),
+    Controller({ prefix: '/strict', ajv: {}, route: spec })
+  )
+  app.use(ProblemHandler)
+
+  const res = await request(app).get('/app/pets/12').expect(200)
+  expect(res.body).toEqual({ id: 12 })
+  await request(app).get('/strict/pets/12').expect(400)
+})
+
+test('Spec First App Components', () => {
+  const contract: SpecDocument = {
+    openapi: '3.0.3',
+    info: { title: 'Contract', version: '1.0.0' },
+    paths: {
+      '/notes': {
+        post: {
+          operationId: 'createNote',
+          requestBody: {
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/SpecNote' },
+              },
+            },
+          },
+          responses: { '201': { description: 'created' } },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        SpecNote: {
+          type: 'object',
+          properties: { author: { $ref: '#/components/schemas/SpecAuthor' } },
+        },
+        SpecAuthor: { type: 'string' },
+        SpecUnused: { type: 'integer' },
+      },
+    },
+  }
+  const doc = App(
+    express(),
+    { info: { title: 'Notes', version: '1.0.0' } },
+    Controller({
+      prefix: '/api',
+      route: (router: Router): AppRoute =>
+        SpecRoute(router, contract, {
+          createNote: (_req: Request, res: Response) => {
+            res.status(201).end()
+          },
+        }),
+    })
+  )
+  expect(doc.components.schemas).toMatchObject({
+    SpecNote: contract.components.schemas.SpecNote,
+    SpecAuthor: { type: 'string' },
+  })
+  expect(doc.components.schemas).not.toHaveProperty('SpecUnused')
+  expect(Object.getOwnPropertySymbols(doc.paths['/api/notes'].post)).toEqual([])
+})
+
+test('Typed Client', async () => {
+  const app = express()
+  const Note = SchemaComponent('ClientNote', {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      text: { type: 'string', description: 'note text' },
+    },
+    required: ['text'],
+  })
+  const doc = App(
+    app,
+    { ajv: { coerceTypes: true }, info: { title: 'Notes', version: '1.0.0' } },
+    Controller({
+      prefix: '/api/notes',
+      route: (router: Router): AppRoute =>
+        Route(
+          router,
+          Path(
+            '/:id',
+            Get({
+              operationId: 'getNote',
+              parameters: [
+                PathParam({
+                  name: 'id',
+                  required: true,
+                  schema: { type: 'integer' },
+                }),
+                QueryParam({ name: 'fields', schema: { type: 'string' } }),
+              ],
+              responses: {
+                '200': {
+                  description: 'note',
+                  content: { 'application/json': { schema: Note } },
+                },
+                '404': { description: 'not found' },
+              },
+              middleware: [
+                (req: Request, res: Response) => {
+                  if (Number(req.params.id) === 1) {
+                    res.json({ id: 1, text: req.query.fields })
+                  } else {
+                    res.status(404).end()
+                  }
+                },
+              ],
+            }),
+            Put({
+              operationId: 'putNote',
+              parameters: [
+                PathParam({
+                  name: 'id',
+                  required: true,
+                  schema: { type: 'integer' },
+                }),
+                HeaderParam({ name: 'x-token', schema: { type: 'string' } }),
+              ],
+              requestBody: {
+                description: 'note',
+                required: true,
+                content: { 'application/json': { schema: Note } },
+              },
+              middleware: [
+                (req: Request, res: Response) => {
+                  res.json({ ...req.body, token: req.headers['x-token'] })
+                },
+              ],
+            })
+          )
+        ),
+    })
+  )
+  app.use(ProblemHandler)
+  const source = generateClient(doc, { baseUrl: '' })
+  expect(source).toContain('export type ClientNote = {')
+  expect(source).toContain('/** note text */')
+  expect(source).toContain('export type GetNoteResponse =')
+  expect(source).toContain('ApiResponse<404, undefined>')
+  expect(source).toContain('putNote: (args: PutNoteArgs)')
+
+  const { code } = transformSync(source, {
+    filename: 'client.ts',
+    presets: [
+      ['@babel/preset-env', { targets: { node: 'current' } }],
+      '@babel/preset-typescript',
+    ],
+  })
+  const client: {
+    exports: {
+      createClient?: (opts: unknown) => {
+        [op: string]: (args: unknown) => Promise<{ status: number }>
+      }
+    }
+  } = { exports: {} }
+  new Function('module', 'exports', code)(client, client.exports)
+
+  // route the client through supertest with an injected fetch
+  const fetch = (
+    url: string,
+    init: { method: string; headers: Record<string, string>; body?: string }
+  ) => {
+    const agent = request(app) as unknown as Record<
+      string,
+      (url: string) => request.Test
+    >
+    return agent[init.method.toLowerCase()](url)
+      .set(init.headers)
+      .send(init.body)
+      .then((res: request.Response) => ({
+        status: res.status,
+        headers: { get: (name: string) => res.get(name) ?? null },
+        json: async () => res.body,
+        text: async () => res.text,
+      }))
+  }
+  const auth = jest.fn((req) => ({
+    ...req,
+    headers: { ...req.headers, 'x-token': 'secret' },
+  }))
+  const api = client.exports.createClient({ fetch, auth })
+
+  const found = await api.getNote({
+    path: { id: 1 },
+    query: { fields: 'all' },
+  })
+  expect(found).toMatchObject({ status: 200, body: { id: 1, text: 'all' } })
+  const missing = await api.getNote({ path: { id: 2 } })
+  expect(missing).toMatchObject({ status: 404, body: undefined })
+  const put = await api.putNote({ path: { id: 1 }, body: { text: 'hi' } })
+  expect(put).toMatchObject({
+    status: 200,
+    body: { text: 'hi', token: 'secret' },
+  })
+  expect(auth).toHaveBeenLastCalledWith(
+    expect.objectContaining({ operationId: 'putNote', method: 'PUT' })
+  )
+  const invalid = await api.putNote({ path: { id: 1 }, body: {} })
+  expect(invalid.status).toBe(400)
+})
+
+test('Mock Responses', async () => {
+  const Item = SchemaComponent('MockItem', {
+    type: 'object',
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      name: { type: 'string', minLength: 3, maxLength: 8 },
+      size: { type: 'integer', minimum: 5, maximum: 9 },
+      kind: { type: 'string', enum: ['a', 'b'] },
+      label: { type: 'string', example: 'fixed' },
+      created: { type: 'string', format: 'date-time' },
+    },
+    required: ['id', 'name'],
+  })
+  const handler = jest.fn()
+  const build = (seed: number) => {
+    const app = express()
+    Paths(
+      app,
+      Controller({
+        prefix: '/api/items',
+        mock: { seed },
+        ajv: { keywords: ['example'] },
+        route: (router: Router): AppRoute =>
+          Route(
+            router,
+            Path(
+              '/',
+              Get({
+                parameters: [
+                  QueryParam({
+                    name: 'limit',
+                    schema: { type: 'integer', maximum: 10 },
+                  }),
+                ],
+                validateResponses: 'throw',
+                responses: {
+                  '200': {
+                    description: 'items',
+                    content: {
+                      'application/json': {
+                        schema: {
+                          type: 'array',
+                          items: Item,
+                          minItems: 2,
+                          maxItems: 4,
+                        },
+                      },
+                    },
+                  },
+                  '404': { description: 'not found' },
+                },
+                middleware: [handler],
+              }),
+              Delete({
+                responses: { '204': { description: 'deleted' } },
+                middleware: [handler],
+              })
+            )
+          ),
+      })
+    )
+    app.use(ProblemHandler)
+    return app
+  }
+  const app = build(7)
+
+  const first = await request(app).get('/api/items/')
+  expect(first.status).toBe(200)
+  expect(first.body.length).toBeGreaterThanOrEqual(2)
+  expect(first.body.length).toBeLessThanOrEqual(4)
+  for (const item of first.body) {
+    expect(item.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4/)
+    expect(item.name.length).toBeGreaterThanOrEqual(3)
+    expect(item.name.length).toBeLessThanOrEqual(8)
+    expect(item.size).toBeGreaterThanOrEqual(5)
+    expect(item.size).toBeLessThanOrEqual(9)
+    expect(['a', 'b']).toContain(item.kind)
+    expect(item.label).toBe('fixed')
+    expect(Number.isNaN(Date.parse(item.created))).toBe(false)
+  }
+  const again = await request(build(7)).get('/api/items/')
+  expect(again.body).toEqual(first.body)
+
+  const invalid = await request(app).get('/api/items/?limit=50')
+  expect(invalid.status).toBe(400)
+  const deleted = await request(app).delete('/api/items/')
+  expect(deleted.status).toBe(204)
+  expect(handler).not.toHaveBeenCalled()
+})
+
+test('Mock Small Maximums', async () => {
+  for (const seed of [1, 2, 3]) {
+    const app = express()
+    const { router } = Route(
+      express.Router(),
+      { mock: { seed } },
+      Path(
+        '/',
+        Get({
+          validateResponses: 'throw',
+          responses: {
+            '200': {
+              description: 'codes',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      code: { type: 'string', maxLength: 2 },
+                      tags: {
+                        type: 'array',
+                        maxItems: 0,
+                        items: { type: 'integer' },
+                      },
+                    },
+                    required: ['code', 'tags'],
+                  },
+                },
+              },
+            },
+          },
+          middleware: [],
+        })
+      )
+    )
+    app.use('/test', router)
+    app.use(ProblemHandler)
+
+    const res = await request(app).get('/test').expect(200)
+    expect(res.body.code.length).toBeLessThanOrEqual(2)
+    expect(res.body.tags).toEqual([])
+  }
+})
+
+test('Contract Scenarios', async () => {
+  const app = express()
+  const paths = Paths(
+    app,
+    Controller({
+      prefix: '/api/contract',
+      route: (router: Router): AppRoute =>
+        Route(
+          router,
+          Path(
+            '/:id',
+            Get({
+              parameters: [
+                PathParam({
+                  name: 'id',
+                  required: true,
+                  schema: { type: 'string', pattern: '^\\d+$' },
+                }),
+              ],
+              responses: {
+                '200': {
+                  description: 'record',
+                  content: {
+                    'application/json': {
+                      schema: {
+                        type: 'object',
+                        properties: { id: { type: 'integer' } },
+                        required: ['id'],
+                      },
+                    },
+                  },
+                },
+                '404': { description: 'not found' },
+              },
+              middleware: [
+                (req: Request, res: Response) => {
+                  const id = Number(req.params.id)
+                  if (id === 0) {
+                    res.status(404).end()
+                  } else if (id === 2) {
+                    res.json({ id: 'two' })
+                  } else {
+                    res.json({ id })
+                  }
+                },
+              ],
+            })
+          )
+        ),
+    })
+  )
+  app.use(ProblemHandler)
+
+  const contract = Contract(app, paths)
+  expect(contract.cases()).toEqual([
+    { operation: 'GET /api/contract/{id}', status: '200' },
+    { operation: 'GET /api/contract/{id}', status: '400' },
+    { operation: 'GET /api/contract/{id}', status: '404' },
+  ])
+  expect(() =>
+    contract.scenario('GET /api/contract/{id}', 500, (app) =>
+      request(app).get('/api/contract/1')
+    )
+  ).toThrow("'GET /api/contract/{id}' documents no 500 response")
+
+  contract
+    .scenario('GET /api/contract/{id}', 200, (app) =>
+      request(app).get('/api/contract/1')
+    )
+    .scenario('GET /api/contract/{id}', 404, (app) =>
+      request(app).get('/api/contract/0')
+    )
+    .scenario(
+      'GET /api/contract/{id}',
+      200,
+      (app) => request(app).get('/api/contract/2'),
+      'invalid body'
+    )
+  const results = await contract.run()
+  expect(results.map((r) => r.passed)).toEqual([true, true, false])
+  expect(results[2].errors).toEqual(['body/id must be integer'])
+
+  const print = jest.fn()
+  const report = contract.report(print)
+  expect(print).toHaveBeenCalledWith(report)
+  expect(report).toContain('contract coverage: 2/3 documented responses')
+  expect(report).toContain('  GET /api/contract/{id} 400')
+  expect(report).toContain('  invalid body: body/id must be integer')
+})
+
+test('Fuzz Validators', async () => {
+  const build = (handler: (req: Request, res: Response) => void) => {
+    const app = express()
+    const paths = Paths(
+      app,
+      { ajv: { coerceTypes: true } },
+      Controller({
+        prefix: '/api/fuzz',
+        route: (router: Router): AppRoute =>
+          Route(
+            router,
+            Path(
+              '/:id',
+              Post({
+                parameters: [
+                  PathParam({
+                    name: 'id',
+                    required: true,
+                    schema: { type: 'integer', minimum: 1 },
+                  }),
+                  QueryParam({
+                    name: 'mode',
+                    schema: { type: 'string', enum: ['fast', 'slow'] },
+                  }),
+                  HeaderParam({
+                    name: 'x-limit',
+                    schema: { type: 'integer', maximum: 10 },
+                  }),
+                ],
+                requestBody: {
+                  description: 'item',
+                  required: true,
+                  content: {
+                    'application/json': {
+                      schema: {
+                        type: 'object',
+                        properties: {
+                          name: { type: 'string', minLength: 1, maxLength: 5 },
+                          tags: {
+                            type: 'array',
+                            items: { type: 'string' },
+                            maxItems: 2,
+                          },
+                        },
+                        required: ['name'],
+                        additionalProperties: false,
+                      },
+                    },
+                  },
+                },
+                middleware: [handler],
+              })
+            )
+          ),
+      })
+    )
+    return { app, paths }
+  }
+
+  const ok = build((req, res) => {
+    res.json({ id: req.params.id, name: req.body.name })
+  })
+  const report = await Fuzz(ok.app, ok.paths, {
+    runs: 40,
+    seed: 3,
+    ajv: { coerceTypes: true },
+  })
+  expect(report.failures).toEqual([])
+  expect(report.cases).toBeGreaterThan(20)
+
+  // the handler crashes on tags the validators accept
+  const buggy = build((req, res) => {
+    res.json({ first: req.body.tags[0].toUpperCase() })
+  })
+  const first = await Fuzz(buggy.app, buggy.paths, {
+    runs: 40,
+    seed: 3,
+    ajv: { coerceTypes: true },
+  })
+  expect(first.failures.length).toBeGreaterThan(0)
+  expect(first.failures[0]).toMatchObject({
+    operation: 'POST /api/fuzz/{id}',
+    seed: 3,
+    input: 'valid',
+    reason: 'server error 500',
+  })
+  const again = await Fuzz(buggy.app, buggy.paths, {
+    runs: 40,
+    seed: 3,
+    ajv: { coerceTypes: true },
+  })
+  expect(again.failures).toEqual(first.failures)
+
+  // a handler's own 400 does not stand in for validation
+  const unvalidated = express()
+  unvalidated.post('/api/fuzz/:id', (_req: Request, res: Response) => {
+    res.status(400).send('bad request')
+  })
+  const own = await Fuzz(unvalidated, ok.paths, { runs: 10, seed: 3 })
+  expect(own.failures.length).toBeGreaterThan(0)
+  expect(own.failures[0]).toMatchObject({
+    input: 'invalid',
+    status: 400,
+    reason: 'invalid input answered with 400, not a validation error',
+  })
+})
+
+test('Lint Rules', () => {
+  const app = express()
+  const paths = Paths(
+    app,
+    Controller({
+      prefix: '/api/lint',
+      route: (router: Router): AppRoute =>
+        Route(
+          router,
+          Path(
+            '/:id',
+            Get({
+              operationId: 'getItem',
+              description: 'get an item',
+              tags: ['items'],
+              parameters: [
+                PathParam({
+                  name: 'id',
+                  required: true,
+                  schema: { type: 'string' },
+                }),
+              ],
+              responses: { '200': { description: 'item' } },
+              middleware: [routeHandler],
+            }),
+            Put({
+              operationId: 'getItem',
+              middleware: [routeHandler],
+            })
+          )
+        ),
+    })
+  )
+  const findings = lint(paths, {
+    rules: { 'operation-tags': 'off' },
+    custom: [
+      {
+        name: 'operation-summary',
+        severity: 'warn',
+        check: ({ operation }) =>
+          operation.summary ? [] : ['operation has no summary'],
+      },
+    ],
+  })
+  expect(findings.map((f) => [f.operation, f.severity, f.message])).toEqual([
+    ['GET /api/lint/{id}', 'warn', 'operation has no summary'],
+    ['PUT /api/lint/{id}', 'warn', 'operation has no description'],
+    ['PUT /api/lint/{id}', 'error', 'operation documents no 2xx response'],
+    [
+      'PUT /api/lint/{id}',
+      'error',
+      "operationId 'getItem' is already used by GET /api/lint/{id}",
+    ],
+    ['PUT /api/lint/{id}', 'warn', 'operation has no summary'],
+  ])
+  expect(lintReport(findings).split('\n')[1]).toBe(
+    'warn\tPUT /api/lint/{id}\toperation has no description\t(operation-description)'
+  )
+
+  // documents written by hand may drift from their templates
+  const drift = lint({
+    '/items/{id}': {
+      get: {
+        description: 'get an item',
+        tags: ['items'],
+        parameters: [
+          { in: 'path', name: 'id', schema: { type: 'string' } },
+          {
+            in: 'path',
+            name: 'key',
+            required: true,
+            schema: { type: 'string' },
+          },
+        ],
+        responses: { '200': { description: 'item' } },
+        middleware: [],
+      },
+    },
+    '/items/{id}/tags': {
+      get: {
+        description: 'list item tags',
+        tags: ['items'],
+        responses: { '200': { description: 'tags' } },
+        middleware: [],
+      },
+    },
+  })
+  expect(drift.map((f) => [f.operation, f.message])).toEqual([
+    ['GET /items/{id}', "PathParam 'key' is not in the path"],
+    ['GET /items/{id}', "PathParam 'id' is not required"],
+    ['GET /items/{id}/tags', "path parameter 'id' has no PathParam"],
+  ])
+})
+
+test('Spec Diff', () => {
+  const version = (next: boolean): SpecDocument => ({
+    openapi: '3.0.3',
+    info: { title: 'Diff', version: next ? '2.0.0' : '1.0.0' },
+    paths: {
+      [next ? '/users/{userId}' : '/users/{id}']: {
+        get: {
+          parameters: [
+            {
+              in: 'path',
+              name: next ? 'userId' : 'id',
+              required: true,
+              schema: { type: 'string' },
+            },
+            {
+              in: 'query',
+              name: 'view',
+              required: next,
+              schema: {
+                type: 'string',
+                enum: next ? ['full'] : ['full', 'short'],
+              },
+            },
+          ],
+          responses: {
+            '200': {
+              description: 'user',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      id: { type: next ? 'integer' : 'string' },
+                      ...(next ? { nickname: { type: 'string' } } : {}),
+                    },
+                  },
+                },
+              },
+            },
+          },
+          middleware: [],
+        },
+      },
+      ...(next
+        ? {}
+        : {
+            '/users': {
+              delete: {
+                responses: { '204': { description: 'deleted' } },
+                middleware: [],
+              },
+            },
+          }),
+    },
+  })
+  const changes = diffSpecs(version(false), version(true))
+  expect(changes).toEqual([
+    {
+      type: 'breaking',
+      operation: 'DELETE /users',
+      location: '',
+      message: 'operation removed',
+    },
+    {
+      type: 'breaking',
+      operation: 'GET /users/{userId}',
+      location: 'query.view',
+      message: 'parameter became required',
+    },
+    {
+      type: 'breaking',
+      operation: 'GET /users/{userId}',
+      location: 'query.view',
+      message: 'enum narrowed, removed short',
+    },
+    {
+      type: 'breaking',
+      operation: 'GET /users/{userId}',
+      location: 'responses.200.application/json.id',
+      message: 'type changed from string to integer',
+    },
+    {
+      type: 'non-breaking',
+      operation: 'GET /users/{userId}',
+      location: 'responses.200.application/json.nickname',
+      message: 'optional property added',
+    },
+  ])
+  expect(diffReport(changes).split('\n').slice(0, 4)).toEqual([
+    '4 breaking, 1 non-breaking changes',
+    '',
+    'Breaking:',
+    '  DELETE /users: operation removed',
+  ])
+})
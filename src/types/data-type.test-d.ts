@@ -0,0 +1,104 @@
+/*
+ * Type-level tests for `AODataType`
+ *
+ * Checked by `yarn test:types` (tsconfig.test-d.json), kept out of the
+ * build so it does not ship in `dist`
+ */
+import { AODataType, ComponentRef } from '../lib'
+
+type Same<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false
+type Expect<T extends true> = T
+
+type Tag = ComponentRef<{
+  type: 'object'
+  properties: {
+    name: { type: 'string' }
+  }
+  required: ['name']
+}>
+
+export type DataTypeTests = [
+  Expect<Same<AODataType<{ type: 'integer' }>, number>>,
+  Expect<Same<AODataType<{ type: 'string'; nullable: true }>, string | null>>,
+  Expect<Same<AODataType<{ type: 'string'; enum: ['a', 'b'] }>, 'a' | 'b'>>,
+  Expect<Same<AODataType<{ type: 'integer'; enum: [1, 2] }>, 1 | 2>>,
+  Expect<Same<AODataType<{ type: 'string'; enum: string[] }>, string>>,
+  Expect<
+    Same<
+      AODataType<{ oneOf: [{ type: 'string' }, { type: 'integer' }] }>,
+      string | number
+    >
+  >,
+  Expect<
+    Same<
+      AODataType<{
+        anyOf: [{ type: 'boolean' }, { type: 'string'; nullable: true }]
+      }>,
+      boolean | string | null
+    >
+  >,
+  Expect<
+    Same<
+      AODataType<{
+        type: 'array'
+        items: { type: 'array'; items: { type: 'number' } }
+      }>,
+      number[][]
+    >
+  >,
+  Expect<
+    Same<
+      AODataType<{
+        type: 'array'
+        items: {
+          type: 'object'
+          properties: { id: { type: 'integer' } }
+          required: ['id']
+        }
+      }>,
+      { id: number }[]
+    >
+  >,
+  Expect<
+    Same<
+      AODataType<{
+        type: 'object'
+        properties: { id: { type: 'integer' } }
+      }>,
+      { id?: number }
+    >
+  >,
+  Expect<
+    Same<
+      AODataType<{
+        type: 'object'
+        additionalProperties: { type: 'integer' }
+      }>,
+      Record<string, number>
+    >
+  >,
+  Expect<
+    Same<
+      AODataType<{
+        type: 'object'
+        properties: { name: { type: 'string' } }
+        required: ['name']
+        oneOf: [{ required: ['name'] }]
+      }>,
+      { name: string }
+    >
+  >,
+  Expect<
+    Same<
+      AODataType<{
+        allOf: [
+          { type: 'object'; properties: { a: { type: 'string' } } },
+          { type: 'object'; properties: { b: { type: 'number' } } }
+        ]
+      }>,
+      { a?: string; b?: number }
+    >
+  >,
+  Expect<Same<AODataType<Tag>, { name: string }>>,
+  Expect<Same<AODataType<{ type: 'array'; items: Tag }>, { name: string }[]>>
+]
@@ -1,4 +1,6 @@
 import { Request, Response, RequestHandler, NextFunction } from "express";
+import { Options } from "ajv";
+import { ValidationError } from "../lib/errors";
 
 export type NamedHandler<S> = Record<
   S extends string ? S : string,
@@ -7,24 +9,100 @@ export type NamedHandler<S> = Record<
 
 export interface AppObject {
   openapi: string;
-  info: {
-    title: string;
-    description: string;
-  };
+  info: InfoObject;
+  servers?: ServerObject[];
+  tags?: TagObject[];
+  externalDocs?: ExternalDocsObject;
   wrapper?: (cb: RequestHandler) => RequestHandler;
   paths: PathItem;
   components?: Components;
 }
 
-interface Components {
-  securitySchemes: SecuritySchemesObject;
+export type AppDefinition = Omit<
+  AppObject,
+  "openapi" | "paths" | "components" | "wrapper"
+> & {
+  openapi?: string;
+};
+
+/**
+ * An existing OpenAPI 3 document, as loaded from JSON or YAML
+ */
+export interface SpecDocument {
+  openapi: string;
+  paths: {
+    [path: string]: {
+      parameters?: (Parameter | Reference)[];
+      [key: string]: unknown;
+    };
+  };
+  components?: {
+    schemas?: { [name: string]: ParamSchema };
+    parameters?: { [name: string]: Parameter };
+    requestBodies?: { [name: string]: MediaSchema };
+    responses?: { [name: string]: MediaSchema };
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+export interface Reference {
+  $ref: string;
+}
+
+export interface InfoObject {
+  title: string;
+  version: string;
+  description?: string;
+  termsOfService?: string;
+  contact?: {
+    name?: string;
+    url?: string;
+    email?: string;
+  };
+  license?: {
+    name: string;
+    url?: string;
+  };
+}
+
+export interface ServerObject {
+  url: string;
+  description?: string;
+  variables?: {
+    [v: string]: {
+      default: string;
+      enum?: string[];
+      description?: string;
+    };
+  };
+}
+
+export interface TagObject {
+  name: string;
+  description?: string;
+  externalDocs?: ExternalDocsObject;
+}
+
+export interface ExternalDocsObject {
+  url: string;
+  description?: string;
 }
 
-interface SecuritySchemesObject {
-  [y: string]: {
-    type: string;
-    [z: string]: unknown;
+export interface Components {
+  schemas?: {
+    [name: string]: ParamSchema;
   };
+  securitySchemes?: SecuritySchemesObject;
+}
+
+export interface SecuritySchemeObject {
+  type: string;
+  [z: string]: unknown;
+}
+
+export interface SecuritySchemesObject {
+  [y: string]: SecuritySchemeObject;
 }
 
 export interface PathItem {
@@ -36,17 +114,38 @@ export interface PathObject {
   post?: PathOperation;
   put?: PathOperation;
   delete?: PathOperation;
+  patch?: PathOperation;
+  head?: PathOperation;
+  options?: PathOperation;
+  trace?: PathOperation;
 }
 
+export type HttpMethod = keyof PathObject;
+
 export interface ScopeHandler {
-  (req: Request, res?: Response, next?: NextFunction): boolean;
+  (req: Request, res?: Response, next?: NextFunction):
+    | boolean
+    | Promise<boolean>;
 }
 
+export type ScopeCheck = (req: Request, res: Response) => Promise<boolean>;
+
 export type ScopeObject<S = string> = {
   auth: string;
+  scheme?: SecuritySchemeObject;
   scopes: (keyof NamedHandler<S>)[];
   middleware: RequestHandler[];
   responses?: MediaSchemaItem;
+  /** setup run ahead of `check`, such as reading credentials */
+  before?: RequestHandler[];
+  /** whether the request is granted, without answering it */
+  check?: ScopeCheck;
+  /** answers requests `check` denies */
+  deny?: RequestHandler;
+  /** requirement alternatives met, `[{ [auth]: scopes }]` when missing */
+  security?: SecurityObject;
+  /** schemes of combined scopes, by name */
+  schemes?: SecuritySchemesObject;
 };
 
 export type SecurityObject = {
@@ -59,14 +158,29 @@ export interface PathOperation {
   summary?: string;
   requestBody?: MediaSchema;
   description?: string;
+  deprecated?: boolean;
   responses?: MediaSchemaItem;
   scope?: ScopeObject[];
   security?: SecurityObject;
   parameters?: Parameter[];
   wrapper?: (cb: RequestHandler) => RequestHandler;
+  validateResponses?: ResponseValidationMode | ResponseValidation;
+  validation?: ValidationOptions;
   middleware: RequestHandler[];
 }
 
+export type ValidationOptions = Pick<
+  Options,
+  "coerceTypes" | "useDefaults" | "removeAdditional"
+>;
+
+export type ResponseValidationMode = "throw" | "report";
+
+export interface ResponseValidation {
+  mode: ResponseValidationMode;
+  report?: (err: ValidationError, req: Request) => void;
+}
+
 export interface MediaSchemaItem {
   [code: string]: MediaSchema;
 }
@@ -80,10 +194,28 @@ export interface MediaSchema {
 export interface ContentItem {
   [content: string]: {
     schema: ParamSchema;
+    encoding?: {
+      [property: string]: {
+        contentType?: string;
+      };
+    };
   };
 }
 
-export type ParamIn = "query" | "path" | "body";
+export interface UploadedFile {
+  fieldname: string;
+  originalname: string;
+  encoding: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export interface UploadedFiles {
+  [fieldname: string]: UploadedFile[];
+}
+
+export type ParamIn = "query" | "path" | "header" | "cookie" | "body";
 
 export interface Parameter {
   in: ParamIn;
@@ -103,6 +235,7 @@ export interface Parameter {
 export type ParamType = "integer" | "number" | "string" | "array" | "object" | "boolean";
 
 export interface ParamSchema {
+  $ref?: string;
   type?: ParamType
   description?: string;
   format?: string;
@@ -122,10 +255,11 @@ export interface ParamSchema {
   properties?: {
     [p: string]: ParamSchema;
   };
-  additionalProperties?: boolean;
+  additionalProperties?: boolean | ParamSchema;
   items?: ParamSchema;
   pattern?: string;
   uniqueItems?: boolean;
   oneOf?: ParamSchema[];
   anyOf?: ParamSchema[];
+  allOf?: ParamSchema[];
 }
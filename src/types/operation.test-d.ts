@@ -0,0 +1,103 @@
+/*
+ * Type-level tests for the `Operation` handler types
+ *
+ * Checked by `yarn test:types` (tsconfig.test-d.json), kept out of the
+ * build so it does not ship in `dist`
+ */
+import {
+  AOHandler,
+  AOParamsIn,
+  AORequestBody,
+  AOResponseBody,
+  HeaderParam,
+  Operation,
+  PathParam,
+  QueryParam,
+} from '../lib'
+
+type Same<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false
+type Expect<T extends true> = T
+
+const parameters = [
+  PathParam({ name: 'id', schema: { type: 'integer' } }),
+  QueryParam({ name: 'limit', schema: { type: 'integer' } }),
+  QueryParam({ name: 'q', required: true, schema: { type: 'string' } }),
+  HeaderParam({ name: 'x-trace', schema: { type: 'string' } }),
+]
+
+type Params = typeof parameters
+
+type Body = {
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object'
+        properties: { name: { type: 'string' } }
+        required: ['name']
+      }
+    }
+    'text/plain': { schema: { type: 'string' } }
+  }
+}
+
+type Responses = {
+  '200': {
+    description: 'ok'
+    content: {
+      'application/json': {
+        schema: { type: 'array'; items: { type: 'integer' } }
+      }
+    }
+  }
+  '404': { description: 'not found' }
+}
+
+type Handler = AOHandler<Params, Body, Responses>
+type Req = Parameters<Handler>[0]
+type Res = Parameters<Handler>[1]
+
+export type OperationTests = [
+  Expect<Same<Params[number]['name'], 'id' | 'limit' | 'q' | 'x-trace'>>,
+  Expect<Same<AOParamsIn<Params, 'path'>, { id: number }>>,
+  Expect<Same<AOParamsIn<Params, 'query'>, { limit?: number } & { q: string }>>,
+  Expect<Same<AOParamsIn<Params, 'header'>, { 'x-trace'?: string }>>,
+  Expect<Same<AOParamsIn<Params, 'cookie'>, Record<string, never>>>,
+  Expect<Same<AOParamsIn<[], 'path'>, Record<string, never>>>,
+  Expect<Same<AORequestBody<Body>, { name: string } | string>>,
+  Expect<Same<AORequestBody<never>, never>>,
+  Expect<Same<AOResponseBody<Responses>, number[]>>,
+  Expect<
+    Same<AOResponseBody<{ '204': { description: 'no content' } }>, unknown>
+  >,
+  Expect<Same<Req['params'], { id: number }>>,
+  Expect<Same<Req['query'], { limit?: number } & { q: string }>>,
+  Expect<Same<Req['body'], { name: string } | string>>,
+  Expect<Same<Parameters<Res['json']>[0], number[]>>
+]
+
+// handlers are typed from the builders passed to `Operation`
+export const typedOperation = Operation({
+  parameters: [
+    PathParam({ name: 'id', schema: { type: 'integer' } }),
+    QueryParam({ name: 'limit', schema: { type: 'integer' } }),
+    QueryParam({ name: 'q', schema: { type: 'string' } }),
+  ],
+  responses: {
+    '200': {
+      description: 'ok',
+      content: {
+        'application/json': { schema: { type: 'integer' } },
+      },
+    },
+  },
+  middleware: [
+    (req, res) => {
+      const id: Expect<Same<typeof req.params.id, number>> = true
+      const limit: Expect<Same<typeof req.query.limit, number>> = true
+      const q: Expect<Same<typeof req.query.q, string>> = true
+      // @ts-expect-error undeclared query parameters are not typed
+      req.query.anything
+      res.status(200).json(id && limit && q ? req.params.id : 0)
+    },
+  ],
+})